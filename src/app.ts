@@ -9,9 +9,34 @@ import rateLimit from 'express-rate-limit';
 import { DataAggregatorService } from './services/DataAggregatorService';
 import { CacheService } from './services/CacheService';
 import { WebSocketService } from './services/WebSocketService';
+import { SchedulerService } from './services/SchedulerService';
+import { IngestionQueueService } from './services/IngestionQueueService';
+import { ChangeDetectionService } from './services/ChangeDetectionService';
+import { AlertService } from './services/AlertService';
+import { PriceHistoryService } from './services/PriceHistoryService';
 import { TokenController } from './controllers/TokenController';
+import { AlertController } from './controllers/AlertController';
 import { config } from './config';
 import { logger } from './utils/logger';
+import { ApiError, errorBody } from './utils/errors';
+import { validate, validated } from './middleware/validate';
+import { requireOwner } from './middleware/auth';
+import { errorHandler } from './middleware/errorHandler';
+import {
+  alertHistoryQuery,
+  alertIdParams,
+  alertListQuery,
+  candlesQuery,
+  createAlertBody,
+  deadLetterReplayQuery,
+  statusQuery,
+  tokenAddressParams,
+  tokenBatchBody,
+  tokenDetailQuery,
+  tokenListQuery,
+  tokenSearchQuery,
+} from './schemas';
+import { TokenData } from './types';
 
 class MemeCoinAggregator {
   private app: express.Application;
@@ -20,8 +45,14 @@ class MemeCoinAggregator {
   private dataAggregator: DataAggregatorService;
   private cacheService: CacheService;
   private websocketService: WebSocketService;
+  private priceHistory: PriceHistoryService;
   private tokenController: TokenController;
-  private updateInterval: NodeJS.Timeout | null = null;
+  private scheduler: SchedulerService;
+  private changeDetection: ChangeDetectionService;
+  private alertService: AlertService;
+  private alertController: AlertController;
+  private ingestionQueue: IngestionQueueService | null = null;
+  private publishChain: Promise<void> = Promise.resolve();
 
   constructor() {
     this.app = express();
@@ -36,13 +67,34 @@ class MemeCoinAggregator {
     });
 
     this.cacheService = new CacheService();
-    this.dataAggregator = new DataAggregatorService();
+    this.dataAggregator = new DataAggregatorService(this.cacheService);
     this.websocketService = new WebSocketService(this.io, this.cacheService);
-    this.tokenController = new TokenController(this.cacheService, this.dataAggregator);
+    this.priceHistory = new PriceHistoryService(this.cacheService);
+    this.tokenController = new TokenController(this.cacheService, this.dataAggregator, this.priceHistory);
+    this.scheduler = new SchedulerService(this.cacheService);
+    this.changeDetection = new ChangeDetectionService(this.cacheService);
+    this.alertService = new AlertService(this.cacheService, this.websocketService);
+    this.alertController = new AlertController(this.alertService);
+    // the queue lives in Redis, so a memory-only deployment always ingests inline
+    if (config.queue.enabled && config.cache.backend === 'redis') {
+      this.ingestionQueue = new IngestionQueueService(this.cacheService, {
+        fetch: async (provider) => {
+          const result = await this.dataAggregator.refreshProvider(provider);
+          if (result.status === 'rejected') {
+            throw new Error(`${provider} refresh failed: ${result.error}`);
+          }
+          return this.dataAggregator.getLatestSnapshot(provider)!.tokens;
+        },
+        merge: async (snapshots) =>
+          this.priceHistory.withPriceChanges(await this.dataAggregator.mergeSnapshots(snapshots)),
+        persist: (tokens) => this.persistTokens(tokens),
+        broadcast: async (tokens) => this.websocketService.broadcastTokenUpdate(tokens),
+        evaluateAlerts: (tokens) => this.evaluateAlerts(tokens)
+      });
+    }
 
     this.setupMiddleware();
     this.setupRoutes();
-    // this.startBackgroundJobs();
   }
 
   private setupMiddleware(): void {
@@ -60,7 +112,7 @@ class MemeCoinAggregator {
     const limiter = rateLimit({
       windowMs: 1 * 60 * 1000, // 1 minute
       max: 100, // limit each IP to 100 requests per windowMs
-      message: 'Too many requests from this IP, please try again later.'
+      message: errorBody('RATE_LIMITED', 'Too many requests from this IP, please try again later.')
     });
     this.app.use(limiter);
     
@@ -73,110 +125,176 @@ class MemeCoinAggregator {
 
   private setupRoutes(): void {
     // to check api health
-    this.app.get('/health', (req:Request, res:Response) => {
+    this.app.get('/health', validate({ query: statusQuery }), (req:Request, res:Response) => {
       res.json({ 
         status: 'healthy', 
         timestamp: Date.now(),
         connected_clients: this.websocketService.getConnectedClientsCount(),
+        cache: this.cacheService.getBackendName(),
+        providers: this.dataAggregator.getProviderStatus(),
         environment: config.server.env
       });
     });
 
+    // background refresh status
+    this.app.get('/api/scheduler/status', validate({ query: statusQuery }), (req:Request, res:Response) => {
+      res.json({
+        ...this.scheduler.getStatus(),
+        providers: this.dataAggregator.getProviderStatus(),
+        timestamp: Date.now()
+      });
+    });
+
+    // ingestion queue status and dead-letter replay
+    this.app.get('/api/queue/status', validate({ query: statusQuery }), async (req:Request, res:Response, next:NextFunction) => {
+      try {
+        if (!this.ingestionQueue) {
+          throw new ApiError(404, 'QUEUE_DISABLED', 'Ingestion queue disabled');
+        }
+        res.json({
+          ...(await this.ingestionQueue.getStatus()),
+          dead_letters: await this.ingestionQueue.getDeadLetters(),
+          timestamp: Date.now()
+        });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    this.app.post('/api/queue/dead-letter/replay', validate({ query: deadLetterReplayQuery }), async (req:Request, res:Response, next:NextFunction) => {
+      try {
+        if (!this.ingestionQueue) {
+          throw new ApiError(404, 'QUEUE_DISABLED', 'Ingestion queue disabled');
+        }
+        const replayed = await this.ingestionQueue.replayDeadLetters(validated(req, 'query', deadLetterReplayQuery).limit);
+        res.json({ replayed, timestamp: Date.now() });
+      } catch (error) {
+        next(error);
+      }
+    });
+
     // API routes
-    this.app.get('/api/tokens', this.tokenController.getTokens.bind(this.tokenController));
-    this.app.get('/api/tokens/:address', this.tokenController.getTokenByAddress.bind(this.tokenController));
+    this.app.get('/api/tokens', validate({ query: tokenListQuery }),
+      this.tokenController.getTokens.bind(this.tokenController));
+    // before /:address so "search" isn't taken as an address
+    this.app.get('/api/tokens/search', validate({ query: tokenSearchQuery }),
+      this.tokenController.searchTokens.bind(this.tokenController));
+    this.app.post('/api/tokens/batch', validate({ body: tokenBatchBody }),
+      this.tokenController.getTokensBatch.bind(this.tokenController));
+    this.app.get('/api/tokens/:address', validate({ params: tokenAddressParams, query: tokenDetailQuery }),
+      this.tokenController.getTokenByAddress.bind(this.tokenController));
+    this.app.get('/api/tokens/:address/candles', validate({ params: tokenAddressParams, query: candlesQuery }),
+      this.tokenController.getCandles.bind(this.tokenController));
+    this.app.post('/api/alerts', requireOwner, validate({ body: createAlertBody }),
+      this.alertController.createAlert.bind(this.alertController));
+    this.app.get('/api/alerts', requireOwner, validate({ query: alertListQuery }),
+      this.alertController.listAlerts.bind(this.alertController));
+    this.app.get('/api/alerts/history', requireOwner, validate({ query: alertHistoryQuery }),
+      this.alertController.getHistory.bind(this.alertController));
+    this.app.delete('/api/alerts/:id', requireOwner, validate({ params: alertIdParams }),
+      this.alertController.deleteAlert.bind(this.alertController));
     
     // 404 handler
     this.app.use('*', (req:Request,res:Response) => {
-      res.status(404).json({ error: 'Route not found' });
+      res.status(404).json(errorBody('ROUTE_NOT_FOUND', 'Route not found'));
     });
     
     // Error handler
-    this.app.use((error: any, req: Request, res: Response, next: NextFunction) => {
-      logger.error('Unhandled error:', error);
-      res.status(500).json({ error: 'Internal server error' });
-    });
+    this.app.use(errorHandler);
   }
 
-  private async updateTokenData(): Promise<void> {
-    try {
-      logger.info('Starting token data update...');
-      
-      const startTime = Date.now();
-      const freshTokens = await this.dataAggregator.getAllTokens();
+  // refresh one source, then re-merge, cache and broadcast the combined snapshot
+  private async updateTokenData(providerName: string): Promise<void> {
+    logger.info(`Starting token data update for ${providerName}...`);
+
+    const startTime = Date.now();
+    const result = await this.dataAggregator.refreshProvider(providerName);
+    if (result.status === 'rejected') {
+      throw new Error(`${providerName} refresh failed: ${result.error}`);
+    }
+
+    await this.serializePublish(async () => {
+      const freshTokens = await this.priceHistory.withPriceChanges(await this.dataAggregator.mergeLatest());
       const endTime = Date.now();
-      
+
       logger.info(`Token data update completed in ${endTime - startTime}ms`);
-      
-      // Cache the fresh data
-      await this.cacheService.setTokens(freshTokens);
-      
+
+      // Cache the fresh data and append history samples
+      await this.persistTokens(freshTokens);
+
       // Broadcast updates via WebSocket
       this.websocketService.broadcastTokenUpdate(freshTokens);
-      
-      // Check for significant changes
-      //  await this.detectSignificantChanges(freshTokens);
-      
-    } catch (error) {
-      logger.error('Error updating token data:', error);
+
+      // Check for significant changes and user alerts
+      try {
+        await this.evaluateAlerts(freshTokens);
+      } catch (error) {
+        logger.error('Error evaluating alerts:', error);
+      }
+    });
+  }
+
+  // Per-source jobs fetch concurrently, but merge -> persist -> broadcast runs one at a
+  // time so an older merged snapshot can never overwrite a newer one
+  private serializePublish(task: () => Promise<void>): Promise<void> {
+    const run = this.publishChain.then(task);
+    this.publishChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async persistTokens(tokens: TokenData[]): Promise<void> {
+    await Promise.all([
+      this.cacheService.setTokens(tokens),
+      this.priceHistory.recordSnapshot(tokens)
+    ]);
+  }
+
+  // followers don't poll upstream; they relay what the leader cached to their own sockets
+  private async relayCachedTokens(): Promise<void> {
+    const tokens = await this.cacheService.getTokens();
+    if (tokens) {
+      this.websocketService.broadcastTokenUpdate(tokens);
     }
   }
 
-//  private async detectSignificantChanges(freshTokens: TokenData[]): Promise<void> {
-//   try {
-//     const cachedTokens = await this.cacheService.getTokens();
-//     if (!cachedTokens) return;
+  private async detectSignificantChanges(freshTokens: TokenData[]): Promise<void> {
+    const changes = await this.changeDetection.evaluate(freshTokens);
+    await Promise.all(changes.map(change => this.websocketService.broadcastSignificantChange(change)));
+  }
+
+  private async evaluateAlerts(freshTokens: TokenData[]): Promise<void> {
+    await this.detectSignificantChanges(freshTokens);
+    await this.alertService.evaluate(freshTokens);
+  }
 
-//     const cachedMap = new Map(cachedTokens.map(token => [token.token_address, token]));
-    
-//     for (const freshToken of freshTokens) {
-//       const cachedToken = cachedMap.get(freshToken.token_address);
-//       if (cachedToken) {
-//         // Check for significant price changes (5% threshold)
-//         if (cachedToken.price > 0 && freshToken.price > 0) {
-//           const priceDiff = Math.abs(freshToken.price - cachedToken.price) / cachedToken.price;
-//           if (priceDiff > 0.05) { // 5% change
-//             this.websocketService.broadcastPriceChange(freshToken, cachedToken.price);
-//           }
-//         }
-        
-//         // Check for volume spikes (2x threshold)
-//         if (cachedToken.volume24h > 0 && freshToken.volume24h > cachedToken.volume24h * 2) {
-//           this.websocketService.broadcastVolumeSpike(freshToken);
-//         }
-        
-//         // Check for large market cap changes (10% threshold)
-//         if (cachedToken.marketCap > 0 && freshToken.marketCap > 0) {
-//           const marketCapDiff = Math.abs(freshToken.marketCap - cachedToken.marketCap) / cachedToken.marketCap;
-//           if (marketCapDiff > 0.10) { // 10% change
-//             this.websocketService.broadcastMarketCapChange(freshToken, cachedToken.marketCap);
-//           }
-//         }
-        
-//         // Check for significant liquidity changes (20% threshold)
-//         if (cachedToken.liquidity > 0 && freshToken.liquidity > 0) {
-//           const liquidityDiff = Math.abs(freshToken.liquidity - cachedToken.liquidity) / cachedToken.liquidity;
-//           if (liquidityDiff > 0.20) { // 20% change
-//             this.websocketService.broadcastLiquidityChange(freshToken, cachedToken.liquidity);
-//           }
-//         }
-//       }
-//     }
-//   } catch (error) {
-//     logger.error('Error detecting significant changes:', error);
-//   }
-// }
-
-  private startBackgroundJobs(): void {
-    // Initial data load
-    setTimeout(() => this.updateTokenData(), 1000);
-    
-    // Periodic updates
-    this.updateInterval = setInterval(
-      () => this.updateTokenData(),
-      config.aggregation.updateInterval
+  // With the queue enabled the scheduler only enqueues and workers on any instance run
+  // the stages. While Redis is down (cache on its memory fallback) ingestion runs inline.
+  private async ingest(providerName: string): Promise<void> {
+    if (this.ingestionQueue && this.cacheService.getBackendName() === 'redis') {
+      await this.ingestionQueue.enqueueFetch(providerName);
+    } else {
+      await this.updateTokenData(providerName);
+    }
+  }
+
+  private async startBackgroundJobs(): Promise<void> {
+    this.ingestionQueue?.start();
+
+    for (const provider of this.dataAggregator.getProviders()) {
+      this.scheduler.addJob(
+        `ingest:${provider.name}`,
+        provider.refreshInterval ?? config.aggregation.updateInterval,
+        () => this.ingest(provider.name)
+      );
+    }
+    this.scheduler.addJob(
+      'relay:cache',
+      config.aggregation.updateInterval,
+      () => this.relayCachedTokens(),
+      'follower'
     );
-    
+
+    await this.scheduler.start();
     logger.info('Background jobs started');
   }
 
@@ -189,12 +307,16 @@ class MemeCoinAggregator {
       logger.info(`WebSocket available at ws://localhost:${port}`);
       logger.info(`Health check at http://localhost:${port}/health`);
     });
+
+    if (config.scheduler.enabled) {
+      await this.startBackgroundJobs();
+    }
   }
 
   public async stop(): Promise<void> {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-    }
+    await this.scheduler.stop();
+    await this.ingestionQueue?.close();
+    await this.alertService.flushDeliveries();
     
     await this.cacheService.disconnect();
     this.server.close();
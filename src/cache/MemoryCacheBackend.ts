@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { CacheBackend, CacheWrite } from '../types';
+
+type ScoredMember = { score: number; member: string };
+// Redis orders equal scores by member bytes
+const compareScored = (a: ScoredMember, b: ScoredMember) =>
+  a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0);
+
+type Value = string | Map<string, string> | Set<string> | string[] | ScoredMember[];
+
+interface Entry {
+  value: Value;
+  expiresAt?: number;
+}
+
+interface Lock {
+  owner: string;
+  expiresAt: number;
+}
+
+// Process-local stand-in for Redis: same key layout and semantics. Cache data is bounded by
+// least-recently-used eviction (Map iteration order doubles as the LRU order); locks and keys
+// under persistentPrefixes are state rather than cache and are only removed when they expire.
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries: Map<string, Entry> = new Map();
+  private persistent: Map<string, Entry> = new Map();
+  private locks: Map<string, Lock> = new Map();
+  private maxEntries: number;
+  private persistentPrefixes: string[];
+  // pub/sub only reaches this process, which is all a memory-backed deployment has
+  private channels = new EventEmitter();
+
+  constructor(maxEntries: number, persistentPrefixes: string[] = []) {
+    this.maxEntries = maxEntries;
+    this.persistentPrefixes = persistentPrefixes;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {
+    this.entries.clear();
+    this.persistent.clear();
+    this.locks.clear();
+    this.channels.removeAllListeners();
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+
+  private storeFor(key: string): Map<string, Entry> {
+    return this.persistentPrefixes.some(prefix => key.startsWith(prefix)) ? this.persistent : this.entries;
+  }
+
+  private read<T extends Value>(key: string): T | undefined {
+    const store = this.storeFor(key);
+    const entry = store.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    // re-insert to mark as most recently used
+    store.delete(key);
+    store.set(key, entry);
+    return entry.value as T;
+  }
+
+  private write(key: string, value: Value, expiresAt?: number): void {
+    const store = this.storeFor(key);
+    store.delete(key);
+    store.set(key, { value, expiresAt });
+    if (store === this.persistent) {
+      // nothing evicts these, so expired keys nobody reads again are dropped here
+      const now = Date.now();
+      this.persistent.forEach((entry, stored) => {
+        if (entry.expiresAt !== undefined && entry.expiresAt <= now) this.persistent.delete(stored);
+      });
+      return;
+    }
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  // fetch a collection for in-place mutation, creating it (without expiry) if missing
+  private collection<T extends Value>(key: string, create: () => T): T {
+    const existing = this.read<T>(key);
+    if (existing !== undefined) return existing;
+    const value = create();
+    this.write(key, value);
+    return value;
+  }
+
+  private sortedSet(key: string): ScoredMember[] {
+    return this.read<ScoredMember[]>(key) ?? [];
+  }
+
+  // writes are synchronous, so a batch is as atomic as a Redis MULTI
+  async exec(writes: CacheWrite[]): Promise<void> {
+    for (const write of writes) {
+      switch (write.op) {
+        case 'set':
+          this.write(write.key, write.value, write.ttl ? Date.now() + write.ttl * 1000 : undefined);
+          break;
+        case 'del':
+          this.storeFor(write.key).delete(write.key);
+          break;
+        case 'hset': {
+          const hash = this.collection(write.key, () => new Map<string, string>());
+          Object.entries(write.fields).forEach(([field, value]) => hash.set(field, value));
+          break;
+        }
+        case 'zadd': {
+          const members = this.collection<ScoredMember[]>(write.key, () => []);
+          const existing = members.findIndex(item => item.member === write.member);
+          if (existing >= 0) members.splice(existing, 1);
+          const added = { score: write.score, member: write.member };
+          // members stay sorted, so binary-search the insert position
+          let low = 0;
+          let high = members.length;
+          while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (compareScored(members[mid], added) < 0) low = mid + 1;
+            else high = mid;
+          }
+          members.splice(low, 0, added);
+          break;
+        }
+        case 'zremScore':
+        case 'ztrim': {
+          const members = this.read<ScoredMember[]>(write.key);
+          if (!members) break;
+          const keep = write.op === 'ztrim'
+            ? (item: ScoredMember) => item.score >= write.minScore
+            : (item: ScoredMember) => item.score !== write.score;
+          members.splice(0, members.length, ...members.filter(keep));
+          break;
+        }
+        case 'lpush': {
+          const list = this.collection<string[]>(write.key, () => []);
+          list.unshift(write.value);
+          list.length = Math.min(list.length, write.maxLength);
+          break;
+        }
+        case 'expire':
+          if (this.read(write.key) !== undefined) {
+            this.storeFor(write.key).get(write.key)!.expiresAt = Date.now() + write.ttl * 1000;
+          }
+          break;
+      }
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    if (this.read(key) !== undefined) return false;
+    this.write(key, value, Date.now() + ttl * 1000);
+    return true;
+  }
+
+  async setIfPresent(key: string, value: string): Promise<boolean> {
+    if (this.read(key) === undefined) return false;
+    this.write(key, value, this.storeFor(key).get(key)!.expiresAt);
+    return true;
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    const hash = this.read<Map<string, string>>(key);
+    return hash ? Object.fromEntries(hash) : {};
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.sortedSet(key).length;
+  }
+
+  // same inclusive, negative-aware indexes as ZRANGE
+  async zRange(key: string, start: number, stop: number, reverse: boolean): Promise<string[]> {
+    const members = this.sortedSet(key).map(item => item.member);
+    if (reverse) members.reverse();
+    const from = start < 0 ? members.length + start : start;
+    const to = stop < 0 ? members.length + stop : stop;
+    return members.slice(Math.max(from, 0), to + 1);
+  }
+
+  async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return this.sortedSet(key)
+      .filter(item => item.score >= min && item.score <= max)
+      .map(item => item.member);
+  }
+
+  async zLatestAtOrBefore(key: string, scores: number[]): Promise<Array<string | null>> {
+    const members = this.sortedSet(key);
+    return scores.map(score => {
+      const atOrBefore = members.filter(item => item.score <= score);
+      return atOrBefore.length ? atOrBefore[atOrBefore.length - 1].member : null;
+    });
+  }
+
+  async sAdd(key: string, member: string): Promise<void> {
+    this.collection(key, () => new Set<string>()).add(member);
+  }
+
+  async sRem(key: string, member: string): Promise<void> {
+    this.read<Set<string>>(key)?.delete(member);
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.read<Set<string>>(key) ?? []);
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.read<string[]>(key) ?? [];
+    return list.slice(start, stop < 0 ? list.length + stop + 1 : stop + 1);
+  }
+
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lock = this.locks.get(key);
+    if (lock && lock.owner !== owner && lock.expiresAt > Date.now()) return false;
+    this.locks.set(key, { owner, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async releaseLock(key: string, owner: string): Promise<void> {
+    if (this.locks.get(key)?.owner === owner) {
+      this.locks.delete(key);
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.channels.emit(channel, message);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    this.channels.on(channel, listener);
+  }
+}
@@ -0,0 +1,216 @@
+import { CacheBackend, CacheWrite } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createRedisConnection, RedisConnection, RedisMulti } from './redisConnection';
+
+const LOCK_ACQUIRE_SCRIPT = `local holder = redis.call('GET', KEYS[1])
+if holder == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+if not holder then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0`;
+
+const LOCK_RELEASE_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private client: RedisConnection;
+  private createSubscriber: () => RedisConnection;
+  private subscriber: RedisConnection | null = null;
+  private ready = false;
+
+  constructor(
+    client: RedisConnection = createRedisConnection(),
+    createSubscriber: () => RedisConnection = () => createRedisConnection(true)
+  ) {
+    this.client = client;
+    this.createSubscriber = createSubscriber;
+    this.client.on('ready', () => {
+      logger.info(`Redis connected (${config.redis.mode})`);
+      this.ready = true;
+    });
+    this.client.on('error', (error: Error) => {
+      if (this.ready) logger.error('Redis connection error:', error);
+      this.ready = false;
+    });
+    this.client.on('end', () => {
+      logger.info('Redis connection closed');
+      this.ready = false;
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    this.ready = true;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.ready) {
+      await this.client.close();
+    } else if (this.client.isOpen) {
+      await this.client.destroy(); // still reconnecting, nothing to flush
+    }
+    if (this.subscriber?.isOpen) {
+      await this.subscriber.destroy();
+    }
+    this.subscriber = null;
+    this.ready = false;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.client.ping();
+      this.ready = true;
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // One MULTI on a single node. Cluster keys span slots, so there each key's writes
+  // get their own MULTI (one key, one slot) and the keys are sent concurrently.
+  async exec(writes: CacheWrite[]): Promise<void> {
+    if (writes.length === 0) return;
+
+    if (config.redis.mode === 'cluster') {
+      const byKey = new Map<string, CacheWrite[]>();
+      for (const write of writes) {
+        byKey.set(write.key, [...(byKey.get(write.key) ?? []), write]);
+      }
+      await Promise.all(Array.from(byKey.values(), keyWrites => {
+        const multi = this.client.multi();
+        keyWrites.forEach(write => this.apply(multi, write));
+        return multi.exec();
+      }));
+      return;
+    }
+
+    const multi = this.client.multi();
+    for (const write of writes) {
+      this.apply(multi, write);
+    }
+    await multi.exec();
+  }
+
+  private apply(multi: RedisMulti, write: CacheWrite): void {
+    switch (write.op) {
+      case 'set':
+        if (write.ttl) multi.setEx(write.key, write.ttl, write.value); else multi.set(write.key, write.value);
+        break;
+      case 'del':
+        multi.del(write.key);
+        break;
+      case 'hset':
+        multi.hSet(write.key, write.fields);
+        break;
+      case 'zadd':
+        multi.zAdd(write.key, { score: write.score, value: write.member });
+        break;
+      case 'zremScore':
+        multi.zRemRangeByScore(write.key, write.score, write.score);
+        break;
+      case 'ztrim':
+        multi.zRemRangeByScore(write.key, '-inf', `(${write.minScore}`);
+        break;
+      case 'lpush':
+        multi.lPush(write.key, write.value);
+        multi.lTrim(write.key, 0, write.maxLength - 1);
+        break;
+      case 'expire':
+        multi.expire(write.key, write.ttl);
+        break;
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, EX: ttl });
+    return result === 'OK';
+  }
+
+  async setIfPresent(key: string, value: string): Promise<boolean> {
+    const result = await this.client.set(key, value, { condition: 'XX', expiration: 'KEEPTTL' });
+    return result === 'OK';
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    return this.client.hGetAll(key);
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.client.zCard(key);
+  }
+
+  async zRange(key: string, start: number, stop: number, reverse: boolean): Promise<string[]> {
+    return this.client.zRange(key, start, stop, { REV: reverse });
+  }
+
+  async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return this.client.zRangeByScore(key, min, max);
+  }
+
+  // One round trip per key; every lookup hits the same key, so this also holds in cluster mode
+  async zLatestAtOrBefore(key: string, scores: number[]): Promise<Array<string | null>> {
+    const pipeline = this.client.multi();
+    for (const score of scores) {
+      pipeline.zRange(key, score, '-inf', { BY: 'SCORE', REV: true, LIMIT: { offset: 0, count: 1 } });
+    }
+    const replies = await pipeline.execAsPipeline() as unknown as string[][];
+    return replies.map(members => members[0] ?? null);
+  }
+
+  async sAdd(key: string, member: string): Promise<void> {
+    await this.client.sAdd(key, member);
+  }
+
+  async sRem(key: string, member: string): Promise<void> {
+    await this.client.sRem(key, member);
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return this.client.sMembers(key);
+  }
+
+  async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.client.lRange(key, start, stop);
+  }
+
+  // Take or extend a lock held by `owner`; returns false if someone else holds it
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    const acquired = await this.client.eval(LOCK_ACQUIRE_SCRIPT, { keys: [key], arguments: [owner, String(ttlMs)] });
+    return acquired === 1;
+  }
+
+  async releaseLock(key: string, owner: string): Promise<void> {
+    await this.client.eval(LOCK_RELEASE_SCRIPT, { keys: [key], arguments: [owner] });
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  // A subscribed connection can't run other commands, so subscriptions get their own,
+  // opened on first use. It queues them while Redis is unreachable and resubscribes on reconnect.
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.createSubscriber();
+      this.subscriber.on('error', (error: Error) => logger.debug(`Redis subscriber error: ${error.message}`));
+      this.subscriber.connect().catch((error) => logger.error('Redis subscriber failed to connect:', error));
+    }
+    await this.subscriber.subscribe(channel, listener);
+  }
+}
@@ -0,0 +1,4 @@
+export { RedisCacheBackend } from './RedisCacheBackend';
+export { MemoryCacheBackend } from './MemoryCacheBackend';
+export { createQueueConnection, createRedisConnection, queuePrefix } from './redisConnection';
+export type { RedisConnection, RedisMulti } from './redisConnection';
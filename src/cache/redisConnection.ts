@@ -0,0 +1,80 @@
+import { EventEmitter } from 'events';
+import { createClient, createCluster, createSentinel, RedisClientOptions, RedisClientType } from 'redis';
+import IORedis, { Cluster, RedisOptions } from 'ioredis';
+import { config } from '../config';
+
+// Every Redis connection the service opens (cache and ingestion queues) is built
+// here from config.redis, so URL, TLS, auth, sentinel and cluster settings apply to all.
+
+// node-redis doesn't export its socket options type from the package root
+type RedisSocketOptions = NonNullable<RedisClientOptions['socket']>;
+
+type CacheCommand = 'get' | 'set' | 'hGetAll' | 'zCard' | 'zRange' | 'zRangeByScore' | 'sAdd' | 'sRem' | 'sMembers'
+  | 'lRange' | 'eval' | 'ping' | 'publish' | 'subscribe';
+type MultiCommand = 'set' | 'setEx' | 'del' | 'hSet' | 'zAdd' | 'zRemRangeByScore' | 'lPush' | 'lTrim' | 'expire' | 'zRange'
+  | 'exec' | 'execAsPipeline';
+
+export type RedisMulti = Pick<ReturnType<RedisClientType['multi']>, MultiCommand>;
+
+// The part of a node-redis connection the cache uses. Standalone, cluster and sentinel
+// clients share these command signatures but not each other's full types.
+export type RedisConnection = Pick<RedisClientType, CacheCommand> & Pick<EventEmitter, 'on'> & {
+  readonly isOpen: boolean;
+  connect(): Promise<unknown>;
+  close(): Promise<void>;
+  destroy(): void | Promise<void>;
+  multi(): RedisMulti;
+};
+
+const parseNode = (node: string) => {
+  const [host, port] = node.split(':');
+  return { host, port: parseInt(port || '6379') };
+};
+
+// node-redis client for the cache
+export const createRedisConnection = (subscriber = false): RedisConnection => {
+  const { mode, url, tls, username, password, nodes, sentinelName, connectTimeout } = config.redis;
+  // fail commands straight away while disconnected so CacheService can fall back;
+  // a subscriber instead holds its subscriptions until it connects
+  const socket: RedisSocketOptions = tls ? { tls: true, connectTimeout } : { connectTimeout };
+  const clientOptions = { username, password, disableOfflineQueue: !subscriber, socket };
+
+  if (mode === 'cluster') {
+    const rootNodes = nodes.length ? nodes.map(node => ({ url: `${tls ? 'rediss' : 'redis'}://${node}` })) : [{ url }];
+    return createCluster({ rootNodes, defaults: clientOptions });
+  }
+  if (mode === 'sentinel') {
+    return createSentinel({
+      name: sentinelName,
+      sentinelRootNodes: nodes.map(parseNode),
+      nodeClientOptions: clientOptions,
+    });
+  }
+  return createClient({ url, ...clientOptions });
+};
+
+// ioredis connection for Bull. Blocking and subscriber connections must not give up
+// on commands while reconnecting, which is what Bull's `bclient`/`subscriber` need.
+export const createQueueConnection = (blocking: boolean): IORedis | Cluster => {
+  const { mode, url, tls, username, password, nodes, sentinelName, connectTimeout } = config.redis;
+  const options: RedisOptions = {
+    username,
+    password,
+    connectTimeout,
+    tls: tls ? {} : undefined,
+    ...(blocking && { maxRetriesPerRequest: null, enableReadyCheck: false }),
+  };
+
+  if (mode === 'cluster') {
+    const rootNodes = nodes.length ? nodes.map(parseNode) : [url];
+    return new Cluster(rootNodes, { redisOptions: options });
+  }
+  if (mode === 'sentinel') {
+    return new IORedis({ ...options, sentinels: nodes.map(parseNode), name: sentinelName });
+  }
+  return new IORedis(url, options);
+};
+
+// Bull keys must share a hash slot in cluster mode, hence the hash tag
+export const queuePrefix = (prefix: string): string =>
+  config.redis.mode === 'cluster' ? `{${prefix}}` : prefix;
@@ -1,3 +1,52 @@
+import { ChangeThresholds, MergePolicy, RedisMode } from '../types';
+import { logger } from '../utils/logger';
+
+const THRESHOLD_KEYS: Array<keyof ChangeThresholds> = ['price', 'volumeSpike', 'marketCap', 'liquidity'];
+
+// ALERT_TOKEN_THRESHOLDS is JSON like {"<mint>": {"price": 0.2}}. A malformed value
+// is reported and ignored rather than crashing the process on import.
+function parseTokenThresholds(raw: string | undefined): Record<string, Partial<ChangeThresholds>> {
+  if (!raw) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    logger.error(`Config error: ALERT_TOKEN_THRESHOLDS is not valid JSON (${(error as Error).message}), per-token thresholds disabled`);
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    logger.error('Config error: ALERT_TOKEN_THRESHOLDS must be an object keyed by token address, per-token thresholds disabled');
+    return {};
+  }
+
+  const thresholds: Record<string, Partial<ChangeThresholds>> = {};
+  for (const [address, overrides] of Object.entries(parsed as Record<string, unknown>)) {
+    const values = (overrides ?? {}) as Record<string, unknown>;
+    const valid = THRESHOLD_KEYS.filter(key => typeof values[key] === 'number' && Number.isFinite(values[key]));
+    if (valid.length === 0) {
+      logger.error(`Config error: ALERT_TOKEN_THRESHOLDS entry for ${address} has no numeric ${THRESHOLD_KEYS.join('/')} values, ignoring it`);
+      continue;
+    }
+    thresholds[address.toLowerCase()] = Object.fromEntries(valid.map(key => [key, values[key]]));
+  }
+  return thresholds;
+}
+
+// ALERT_API_KEYS is "key:owner_id,key:owner_id"; each key acts as its owner
+function parseApiKeys(raw: string | undefined): Record<string, string> {
+  const keys: Record<string, string> = {};
+  for (const pair of (raw || '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const separator = pair.indexOf(':');
+    if (separator <= 0 || separator === pair.length - 1) {
+      logger.error('Config error: ALERT_API_KEYS entries must look like key:owner_id, ignoring a malformed entry');
+      continue;
+    }
+    keys[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return keys;
+}
+
 export const config = {
   server: {
     port: process.env.PORT || 3000,
@@ -5,27 +54,154 @@ export const config = {
   },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
-    ttl: parseInt(process.env.CACHE_TTL || '30') // seconds
+    mode: (process.env.REDIS_MODE || 'standalone') as RedisMode,
+    tls: process.env.REDIS_TLS === 'true',
+    username: process.env.REDIS_USERNAME,
+    password: process.env.REDIS_PASSWORD,
+    // host:port list of sentinels (sentinel mode) or seed nodes (cluster mode)
+    nodes: (process.env.REDIS_NODES || '')
+      .split(',')
+      .map(node => node.trim())
+      .filter(Boolean),
+    sentinelName: process.env.REDIS_SENTINEL_NAME || 'mymaster',
+    connectTimeout: parseInt(process.env.REDIS_CONNECT_TIMEOUT || '5000'), // ms
+    ttl: parseInt(process.env.CACHE_TTL || '30'), // seconds
+    staleTtl: parseInt(process.env.CACHE_STALE_TTL || '300'), // seconds an expired snapshot may still be served
+    staleWhileRevalidate: process.env.CACHE_SWR !== 'false'
+  },
+  cache: {
+    backend: (process.env.CACHE_BACKEND || 'redis') as 'redis' | 'memory', // memory skips Redis entirely
+    fallback: process.env.CACHE_FALLBACK !== 'false', // serve from memory while Redis is down
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '10000'), // LRU bound for the memory backend
+    persistentPrefixes: ['alerts:'] // alert rules and their state, which the memory backend never evicts
   },
   api: {
     dexscreener: {
       baseUrl: 'https://api.dexscreener.com/latest/dex',
       rateLimit: 300, // requests per minute
-      retryAttempts: 3
+      retryAttempts: 3,
+      refreshInterval: 10000
     },
     geckoterminal: {
+      baseUrl: 'https://api.geckoterminal.com/api/v2',
+      network: 'solana',
+      rateLimit: 30,
+      retryAttempts: 3,
+      refreshInterval: 30000 // two calls per run against a 30/min budget
+    },
+    coingecko: {
       baseUrl: 'https://api.coingecko.com/api/v3',
       rateLimit: 100,
-      retryAttempts: 3
+      retryAttempts: 3,
+      refreshInterval: 60000,
+      platformsTtl: 86400, // seconds, coins-list-with-platforms changes slowly
+      platformsRetryDelay: 300, // seconds before retrying a failed coins-list fetch
+      fuzzyMatchThreshold: 0.75
     },
   },
   aggregation: {
     updateInterval: 10000, // 10 seconds
     batchSize: 50,
-    maxTokens: 1000
+    maxTokens: 1000,
+    providerSnapshotTtl: 5 * 60 * 1000, // drop a source's tokens after 5 minutes without a successful fetch
+    lookupNegativeTtl: parseInt(process.env.TOKEN_LOOKUP_NEGATIVE_TTL || '60'), // seconds an unknown address stays a 404
+    batchMaxAddresses: 200,
+    batchLookupConcurrency: 4, // upstream lookups in flight per batch request
+    onDemandReserve: 0.2, // share of each provider's rate limit that lookups and searches leave for ingestion
+    providers: (process.env.TOKEN_PROVIDERS || 'dexscreener,geckoterminal,coingecko')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+  },
+  pagination: {
+    cursorSecret: process.env.CURSOR_SECRET || '', // share across instances so any of them can verify a cursor
+    cursorTtl: parseInt(process.env.CURSOR_TTL || '300') // seconds a paging session can stay on its snapshot
   },
+  search: {
+    defaultLimit: 20,
+    maxLimit: 50,
+    minAddressPrefix: 4, // shorter queries would prefix-match half the index
+    fuzzyThreshold: 0.5, // bigram similarity for typo-tolerant name matches
+    negativeTtl: parseInt(process.env.SEARCH_NEGATIVE_TTL || '60') // seconds a query upstream had no match for skips upstream
+  },
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    leaderLock: process.env.SCHEDULER_LEADER_LOCK !== 'false',
+    lockKey: 'scheduler:leader',
+    lockTtl: 30000 // ms, renewed every lockTtl / 3
+  },
+  queue: {
+    enabled: process.env.QUEUE_ENABLED === 'true', // needs Redis; ingestion runs inline without it
+    prefix: 'meme-coin',
+    attempts: 3,
+    backoffDelay: 1000, // ms, doubled per attempt
+    batchTtl: 600, // seconds a merged batch stays replayable
+    concurrency: {
+      fetch: 3,
+      merge: 1,
+      persist: 1,
+      alerts: 1 // alerts compare against the previous batch, so keep them in order
+    }
+  },
+  history: {
+    // full-resolution samples: one per token per bucket, so a 1m candle spans four
+    sampleInterval: 15, // seconds
+    retention: parseInt(process.env.HISTORY_RETENTION || String(24 * 3600)), // seconds
+    // one sample per minute kept for the 7d change and long candle ranges
+    rollupInterval: 60, // seconds
+    rollupRetention: parseInt(process.env.HISTORY_ROLLUP_RETENTION || String(7 * 24 * 3600)), // seconds
+    maxCandles: 1000
+  },
+  changeDetection: {
+    thresholds: {
+      price: parseFloat(process.env.ALERT_PRICE_THRESHOLD || '0.05'),
+      volumeSpike: parseFloat(process.env.ALERT_VOLUME_SPIKE || '2'),
+      marketCap: parseFloat(process.env.ALERT_MARKET_CAP_THRESHOLD || '0.10'),
+      liquidity: parseFloat(process.env.ALERT_LIQUIDITY_THRESHOLD || '0.20')
+    } as ChangeThresholds,
+    // per-token overrides keyed by lowercase address
+    tokenThresholds: parseTokenThresholds(process.env.ALERT_TOKEN_THRESHOLDS),
+    debounceSeconds: parseInt(process.env.ALERT_DEBOUNCE_SECONDS || '300') // one alert per token and metric per window
+  },
+  alerts: {
+    apiKeys: parseApiKeys(process.env.ALERT_API_KEYS),
+    webhookUrl: process.env.ALERT_WEBHOOK_URL || '',
+    webhookSecret: process.env.ALERT_WEBHOOK_SECRET || '',
+    webhookRetryAttempts: 3,
+    webhookTimeout: 5000,
+    deliveryConcurrency: 5, // webhooks in flight, delivered outside the refresh cycle
+    cooldownSeconds: parseInt(process.env.ALERT_COOLDOWN_SECONDS || '60'), // a rule fires at most once per window
+    maxRulesPerOwner: 50,
+    historySize: 1000 // per owner
+  },
+  merge: {
+    // on-chain sources first, CoinGecko as fallback
+    default: { strategy: 'priority', sources: ['dexscreener', 'geckoterminal', 'coingecko'] },
+    fields: {
+      priceChange24h: { strategy: 'priority', sources: ['coingecko', 'dexscreener', 'geckoterminal'] },
+      priceChangePercentage24h: { strategy: 'priority', sources: ['coingecko', 'geckoterminal', 'dexscreener'] },
+      marketCap: { strategy: 'priority', sources: ['coingecko', 'dexscreener', 'geckoterminal'] },
+      marketCapChange24h: { strategy: 'priority', sources: ['coingecko'] },
+      marketCapChangePercentage24h: { strategy: 'priority', sources: ['coingecko'] },
+      circulatingSupply: { strategy: 'priority', sources: ['coingecko'] },
+      totalSupply: { strategy: 'priority', sources: ['coingecko'] },
+      high_24h: { strategy: 'priority', sources: ['coingecko'] },
+      low_24h: { strategy: 'priority', sources: ['coingecko'] },
+      ath: { strategy: 'priority', sources: ['coingecko'] },
+      athChangePercentage: { strategy: 'priority', sources: ['coingecko'] },
+      athDate: { strategy: 'priority', sources: ['coingecko'] },
+      atl: { strategy: 'priority', sources: ['coingecko'] },
+      atlChangePercentage: { strategy: 'priority', sources: ['coingecko'] },
+      atlDate: { strategy: 'priority', sources: ['coingecko'] },
+      roi: { strategy: 'priority', sources: ['coingecko'] },
+      rank: { strategy: 'priority', sources: ['coingecko'] },
+    },
+    divergenceThreshold: parseFloat(process.env.MERGE_DIVERGENCE_THRESHOLD || '0.05')
+  } as MergePolicy,
   websocket: {
     pingInterval: 25000,
-    pingTimeout: 20000
+    pingTimeout: 20000,
+    maxSubscriptionsPerClient: parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '100'),
+    maxFeedsPerClient: parseInt(process.env.WS_MAX_FEEDS || '5')
   }
 };
\ No newline at end of file
@@ -0,0 +1,49 @@
+// src/controllers/AlertController.ts
+import { NextFunction, Request, Response } from 'express';
+import { AlertService } from '../services/AlertService';
+import { ApiError } from '../utils/errors';
+import { ownerOf } from '../middleware/auth';
+import { validated } from '../middleware/validate';
+import { alertHistoryQuery, alertIdParams, createAlertBody } from '../schemas';
+
+export class AlertController {
+  private alertService: AlertService;
+  constructor(alertService: AlertService) {
+    this.alertService = alertService;
+  }
+  async createAlert(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await this.alertService.createRule(ownerOf(res), validated(req, 'body', createAlertBody));
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+  async listAlerts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await this.alertService.listRules(ownerOf(res));
+      res.json({ rules, total_count: rules.length, timestamp: Date.now() });
+    } catch (error) {
+      next(error);
+    }
+  }
+  async deleteAlert(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deleted = await this.alertService.deleteRule(validated(req, 'params', alertIdParams).id, ownerOf(res));
+      if (!deleted) {
+        throw new ApiError(404, 'ALERT_NOT_FOUND', 'Alert not found');
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+  async getHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const alerts = await this.alertService.getHistory(ownerOf(res), validated(req, 'query', alertHistoryQuery).limit);
+      res.json({ alerts, timestamp: Date.now() });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,202 +1,374 @@
 // src/controllers/TokenController.ts
-import { Request, Response } from 'express';
-import { CacheService } from '../services/CacheService';
+import { NextFunction, Request, Response } from 'express';
+import { CacheService, TokenIndex } from '../services/CacheService';
 import { DataAggregatorService } from '../services/DataAggregatorService';
-import { TokenData, PaginatedResponse, FilterOptions } from '../types';
+import { PriceHistoryService } from '../services/PriceHistoryService';
+import { TokenData, PaginatedResponse, FilterOptions, BatchTokenResponse, BatchMissReason } from '../types';
 import { logger } from '../utils/logger';
+import { config } from '../config';
+import { applyFilters, DEFAULT_SORT, parseFilterOptions } from '../utils/services/TokenFilterUtils';
+import { buildSearchIndex, normalizeQuery, searchIndex } from '../utils/services/TokenSearchUtils';
+import { decodeCursor, encodeCursor, InvalidCursorError } from '../utils/services/CursorUtils';
+import { ApiError } from '../utils/errors';
+import { RateLimitError } from '../utils/rateLimiter';
+import { FieldProjection, parseFields, project } from '../utils/services/ProjectionUtils';
+import { validated } from '../middleware/validate';
+import { candlesQuery, tokenAddressParams, tokenBatchBody, tokenDetailQuery, tokenListQuery, tokenSearchQuery } from '../schemas';
+
+// sort fields backed by a sorted index in CacheService
+const INDEXED_SORT_FIELDS: Record<string, TokenIndex> = {
+  volume24h: 'volume',
+  marketCap: 'market_cap',
+  liquidity: 'liquidity',
+  transaction_count: 'transaction_count',
+};
 
 export class TokenController {
   private cacheService: CacheService;
   private dataAggregator: DataAggregatorService;
-  constructor(cacheService: CacheService, dataAggregator: DataAggregatorService) {
+  private priceHistory: PriceHistoryService;
+  private inflightRefresh: Promise<{ tokens: TokenData[]; version: number }> | null = null;
+  private inflightLookups: Map<string, Promise<TokenData | null>> = new Map();
+  private inflightSearches: Map<string, Promise<TokenData[]>> = new Map();
+  constructor(cacheService: CacheService, dataAggregator: DataAggregatorService, priceHistory: PriceHistoryService) {
     this.cacheService = cacheService;
     this.dataAggregator = dataAggregator;
+    this.priceHistory = priceHistory;
   }
-  async getTokens(req: Request, res: Response): Promise<void> {
+  async getTokens(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const filters: FilterOptions = {
-        time_period: req.query.time_period as '1h' | '24h' | '7d',
-        sort_by: req.query.sort_by as any,
-        sort_order: req.query.sort_order as 'asc' | 'desc',
-        min_liquidity: req.query.min_liquidity ? Number(req.query.min_liquidity) : undefined,
-        min_volume: req.query.min_volume ? Number(req.query.min_volume) : undefined,
-        protocol: req.query.protocol as string,
-        limit: req.query.limit ? Math.min(Number(req.query.limit), 100) : 20,
-        cursor: req.query.cursor as string
-      };
+      const query = validated(req, 'query', tokenListQuery);
+      const filters: FilterOptions = parseFilterOptions(query);
+      const fields = parseFields(query.fields);
 
       logger.info(`Fetching tokens with filters: ${JSON.stringify(filters)}`);
 
-      // Try to get from cache first
-      let tokens = await this.cacheService.getTokens();
-      
-      // If cache is empty, fetch fresh data
-      if (!tokens) {
+      // Later pages come from the snapshot the first page was served from
+      if (filters.cursor) {
+        const cursor = decodeCursor(filters.cursor, filters);
+        const snapshot = await this.cacheService.getSnapshot(cursor.version);
+        if (!snapshot) throw new InvalidCursorError('expired');
+        const page = this.paginateTokens(applyFilters(snapshot, filters), filters, cursor.version, cursor.lastAddress);
+        res.json(this.projectPage(page, fields));
+        return;
+      }
+
+      // Plain sorted first pages come straight from the per-token indexes; the full snapshot
+      // is only read if a cursor needs it retained and it wasn't already
+      const meta = await this.cacheService.getTokensMeta();
+      const indexedPage = meta && await this.getIndexedPage(filters, meta.cachedAt);
+      const retained = indexedPage && (!indexedPage.next_cursor || await this.cacheService.retainSnapshot(meta.cachedAt, async () => {
+        const entry = await this.cacheService.getTokensEntry();
+        return entry?.cachedAt === meta.cachedAt ? entry.tokens : null;
+      }));
+      if (indexedPage && retained) {
+        this.setCacheHeaders(res, 'HIT', Math.floor((Date.now() - meta.cachedAt) / 1000));
+        res.json(this.projectPage(indexedPage, fields));
+        return;
+      }
+
+      let tokens: TokenData[];
+      let version: number;
+      let stale = false;
+      const cached = await this.cacheService.getTokensEntry();
+
+      if (cached && !cached.stale) {
+        logger.info('Cache hit');
+        ({ tokens, cachedAt: version } = cached);
+        this.setCacheHeaders(res, 'HIT', cached.ageSeconds);
+      } else if (cached && config.redis.staleWhileRevalidate) {
+        // serve the expired snapshot and refresh in the background
+        logger.info('Cache stale, revalidating in background');
+        ({ tokens, cachedAt: version } = cached);
+        stale = true;
+        this.refreshTokens().catch(error => logger.error('Background refresh failed:', error));
+        this.setCacheHeaders(res, 'STALE', cached.ageSeconds);
+      } else {
         logger.info('Cache miss, fetching fresh data');
-        tokens = await this.dataAggregator.getAllTokens();
-        await this.cacheService.setTokens(tokens);
+        ({ tokens, version } = await this.refreshTokens());
+        this.setCacheHeaders(res, 'MISS', 0);
       }
-      logger.info('Cache hit')
+
       // Apply filters
-      const filteredTokens = this.applyFilters(tokens, filters);
+      const filteredTokens = applyFilters(tokens, filters);
       
       // Apply pagination
-      const paginatedResponse = this.paginateTokens(filteredTokens, filters);
+      const paginatedResponse = this.paginateTokens(filteredTokens, filters, version);
+      if (paginatedResponse.next_cursor) {
+        await this.cacheService.retainSnapshot(version, async () => tokens);
+      }
 
-      res.json(paginatedResponse);
+      const projected = this.projectPage(paginatedResponse, fields);
+      res.json(stale ? { ...projected, stale } : projected);
     } catch (error) {
-      logger.error('Error in getTokens:', error);
-      res.status(500).json({ 
-        error: 'Failed to fetch tokens',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   }
-  async getTokenByAddress(req: Request, res: Response): Promise<void> {
+  async getTokenByAddress(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { address } = req.params;
-      
-      if (!address) {
-        res.status(400).json({ error: 'Token address is required' });
-        return;
-      }
-
+      const { address } = validated(req, 'params', tokenAddressParams);
       logger.info(`Fetching token by address: ${address}`);
 
-      // Try cache first
-      let token = await this.cacheService.getToken(address.toLowerCase());
-      
+      // Try cache first, then the aggregate snapshot, then the upstreams directly
+      const token = await this.cacheService.getToken(address.toLowerCase())
+        ?? (await this.cacheService.getTokensEntry())?.tokens
+          .find(t => t.token_address.toLowerCase() === address.toLowerCase())
+        ?? await this.lookupToken(address);
+
       if (!token) {
-        // If not in cache, get all tokens and find the specific one
-        const tokens = await this.cacheService.getTokens();
-        if (!tokens) {
-          res.status(404).json({ error: 'Token not found' });
-          return;
-        }
-        
-        const foundToken = tokens.find(t => 
-          t.token_address.toLowerCase() === address.toLowerCase()
-        );
-        if (!foundToken) {
-          res.status(404).json({ error: 'Token not found' });
-          return;
-        }
-        token = foundToken;
+        throw new ApiError(404, 'TOKEN_NOT_FOUND', 'Token not found');
       }
-      res.json(token);
+      res.json(project(token, parseFields(validated(req, 'query', tokenDetailQuery).fields)));
     } catch (error) {
-      logger.error('Error in getTokenByAddress:', error);
-      res.status(500).json({ 
-        error: 'Failed to fetch token',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   }
-  private applyFilters(tokens: TokenData[], filters: FilterOptions): TokenData[] {
-    let filtered = [...tokens];
+  async getTokensBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { addresses, fields } = validated(req, 'body', tokenBatchBody);
 
-    // liquidity filter
-    if (filters.min_liquidity) {
-      filtered = filtered.filter(token => (token.liquidity || 0) >= filters.min_liquidity!);
-    }
+      // upstream lookups need the original casing (Solana mints are case-sensitive)
+      const requested = new Map<string, string>();
+      for (const address of addresses) {
+        if (!requested.has(address.toLowerCase())) requested.set(address.toLowerCase(), address);
+      }
+      const keys = Array.from(requested.keys());
+      logger.info(`Batch lookup for ${keys.length} tokens`);
 
-    // Volume filter
-    if (filters.min_volume) {
-      filtered = filtered.filter(token => (token.volume24h || 0) >= filters.min_volume!);
-    }
+      const found = new Map<string, TokenData>();
+      const missing = new Map<string, BatchMissReason>();
+
+      const cached = await Promise.all(keys.map(key => this.cacheService.getToken(key)));
+      cached.forEach((token, i) => token && found.set(keys[i], token));
+
+      let misses = keys.filter(key => !found.has(key));
+      if (misses.length > 0) {
+        const snapshot = (await this.cacheService.getTokensEntry())?.tokens ?? [];
+        for (const token of snapshot) {
+          const key = token.token_address.toLowerCase();
+          if (requested.has(key) && !found.has(key)) found.set(key, token);
+        }
+        misses = misses.filter(key => !found.has(key));
+      }
 
-    // Protocol Filter
-    if (filters.protocol) {
-      filtered = filtered.filter(token => 
-        token.dex.toLowerCase().includes(filters.protocol!.toLowerCase())
-      );
+      // negative entries are answered without spending upstream budget
+      const knownMissing = await Promise.all(misses.map(key => this.cacheService.getKey<boolean>(`token:missing:${key}`)));
+      misses = misses.filter((key, i) => {
+        if (knownMissing[i]) missing.set(key, 'not_found');
+        return !knownMissing[i];
+      });
+
+      await this.lookupBatch(misses.map(key => requested.get(key)!), found, missing);
+
+      const projection = parseFields(fields);
+      const response: BatchTokenResponse = {
+        tokens: keys.filter(key => found.has(key)).map(key => project(found.get(key)!, projection)),
+        missing: keys.filter(key => missing.has(key)).map(key => ({ address: requested.get(key)!, reason: missing.get(key)! })),
+        timestamp: Date.now()
+      };
+      res.json(response);
+    } catch (error) {
+      next(error);
     }
+  }
+  async searchTokens(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { q: query, limit = config.search.defaultLimit, fields: fieldSpec } = validated(req, 'query', tokenSearchQuery);
 
-    // Apply time period filter for price changes
-    if (filters.time_period) {
-      let priceChangeField: keyof TokenData;
-      
-      switch (filters.time_period) {
-        case '1h':
-          priceChangeField = 'priceChange1h';
-          break;
-        case '24h':
-          priceChangeField = 'priceChange24h';
-          break;
-        case '7d':
-          return filtered;
-        default:
-          priceChangeField = 'priceChange24h';
+      // local index first; unknown queries fall through to upstream search
+      const index = await this.cacheService.getSearchIndex();
+      const matches = index ? searchIndex(index, query, limit) : [];
+      let tokens = (await Promise.all(matches.map(match => this.cacheService.getToken(match.address))))
+        .filter((token): token is TokenData => !!token);
+      let source = 'index';
+
+      if (tokens.length === 0) {
+        tokens = (await this.searchUpstream(query)).slice(0, limit);
+        source = 'upstream';
       }
-      
-      filtered = filtered.filter(token => {
-        const change = token[priceChangeField] as number;
-        return change !== undefined && !isNaN(change);
+
+      const fields = parseFields(fieldSpec);
+      res.json({
+        query,
+        tokens: tokens.map(token => project(token, fields)),
+        total_count: tokens.length,
+        source,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  async getCandles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { address } = validated(req, 'params', tokenAddressParams);
+      const { interval, from, to } = validated(req, 'query', candlesQuery);
+
+      const candles = await this.priceHistory.getCandles(address, interval, from, to);
+      res.json({
+        token_address: address,
+        interval,
+        candles,
+        timestamp: Date.now()
       });
+    } catch (error) {
+      next(error);
     }
+  }
+  // On-demand upstream lookup for addresses outside the aggregate. Hits are cached
+  // under the per-token key, unknown addresses get a short negative entry.
+  private lookupToken(address: string): Promise<TokenData | null> {
+    const key = address.toLowerCase();
+    const inflight = this.inflightLookups.get(key);
+    if (inflight) return inflight;
 
-    // Apply sorting
-    if (filters.sort_by) {
-      filtered.sort((a, b) => {
-        let aValue: number = 0;
-        let bValue: number = 0;
-
-        switch (filters.sort_by) {
-          case 'volume':
-            aValue = a.volume24h || 0;
-            bValue = b.volume24h || 0;
-            break;
-          case 'price_change':
-            const timePeriod = filters.time_period || '24h';
-            if (timePeriod === '1h') {
-              aValue = a.priceChange1h || 0;
-              bValue = b.priceChange1h || 0;
-            } else {
-              aValue = a.priceChangePercentage24h || 0;
-              bValue = b.priceChangePercentage24h || 0;
-            }
-            break;
-          case 'market_cap':
-            aValue = a.marketCap || 0;
-            bValue = b.marketCap || 0;
-            break;
-          case 'liquidity':
-            aValue = a.liquidity || 0;
-            bValue = b.liquidity || 0;
-            break;
-          case 'transaction_count':
-            aValue = a.transaction_count || 0;
-            bValue = b.transaction_count || 0;
-            break;
-          default:
-            aValue = a.volume24h || 0;
-            bValue = b.volume24h || 0;
+    const lookup = (async () => {
+      try {
+        if (await this.cacheService.getKey<boolean>(`token:missing:${key}`)) return null;
+
+        logger.info(`Token ${address} not in aggregate, looking it up upstream`);
+        const token = await this.dataAggregator.fetchToken(address);
+        if (token) {
+          await this.cacheService.setToken(token);
+        } else {
+          await this.cacheService.setKey(`token:missing:${key}`, true, config.aggregation.lookupNegativeTtl);
         }
+        return token;
+      } finally {
+        this.inflightLookups.delete(key);
+      }
+    })();
+    this.inflightLookups.set(key, lookup);
+    return lookup;
+  }
+
+  // Upstream search for queries the local index can't answer, shared by concurrent
+  // requests. Matches are cached per token; a query no provider matched gets a short
+  // negative entry, unless some provider failed and might have had it.
+  private searchUpstream(query: string): Promise<TokenData[]> {
+    const key = normalizeQuery(query);
+    const inflight = this.inflightSearches.get(key);
+    if (inflight) return inflight;
+
+    const search = (async () => {
+      try {
+        if (await this.cacheService.getKey<boolean>(`search:missing:${key}`)) return [];
+
+        const { tokens: upstream, failed } = await this.dataAggregator.searchUpstream(key);
+        const byAddress = new Map(upstream.map(token => [token.token_address.toLowerCase(), token]));
+        const matches = searchIndex(buildSearchIndex(upstream), key, config.search.maxLimit).map(match => byAddress.get(match.address)!);
+        if (matches.length > 0) {
+          await Promise.all(matches.map(token => this.cacheService.setToken(token)));
+        } else if (failed.length === 0) {
+          await this.cacheService.setKey(`search:missing:${key}`, true, config.search.negativeTtl);
+        }
+        return matches;
+      } finally {
+        this.inflightSearches.delete(key);
+      }
+    })();
+    this.inflightSearches.set(key, search);
+    return search;
+  }
 
-        if (filters.sort_order === 'desc') {
-          return bValue - aValue;
+  // Upstream lookups for a batch, a few at a time. Once a lookup finds a provider's
+  // budget spent the rest are reported as rate_limited instead of queueing retries.
+  private async lookupBatch(addresses: string[], found: Map<string, TokenData>, missing: Map<string, BatchMissReason>): Promise<void> {
+    const queue = [...addresses];
+    let exhausted = false;
+
+    const worker = async () => {
+      for (let address = queue.shift(); address !== undefined; address = queue.shift()) {
+        const key = address.toLowerCase();
+        if (exhausted) {
+          missing.set(key, 'rate_limited');
+          continue;
+        }
+        try {
+          const token = await this.lookupToken(address);
+          if (token) {
+            found.set(key, token);
+          } else {
+            missing.set(key, 'not_found');
+          }
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            exhausted = true;
+            missing.set(key, 'rate_limited');
+            continue;
+          }
+          logger.warn(`Batch lookup for ${address} failed: ${(error as Error).message}`);
+          missing.set(key, 'lookup_failed');
         }
-        return aValue - bValue;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(config.aggregation.batchLookupConcurrency, queue.length) }, worker));
+  }
+
+  // Single-flight: concurrent misses share one upstream aggregation
+  private refreshTokens(): Promise<{ tokens: TokenData[]; version: number }> {
+    if (!this.inflightRefresh) {
+      this.inflightRefresh = (async () => {
+        const tokens = await this.priceHistory.withPriceChanges(await this.dataAggregator.getAllTokens());
+        const version = await this.cacheService.setTokens(tokens);
+        return { tokens, version };
+      })().finally(() => {
+        this.inflightRefresh = null;
       });
-    } else {
-      // Default sort by volume descending
-      filtered.sort((a, b) => (b.volume24h || 0) - (a.volume24h || 0));
     }
+    return this.inflightRefresh;
+  }
+  private setCacheHeaders(res: Response, status: 'HIT' | 'MISS' | 'STALE', ageSeconds: number): void {
+    res.set('X-Cache', status);
+    res.set('Age', String(Math.max(0, ageSeconds)));
+  }
+  private async getIndexedPage(filters: FilterOptions, version: number): Promise<PaginatedResponse | null> {
+    const hasFilters = filters.min_liquidity || filters.min_volume || filters.protocol || filters.time_period
+      || filters.min_change !== undefined || filters.max_change !== undefined || filters.filter;
+    // indexes score missing metrics as 0, which only lines up with missing-last when descending
+    const [key, ...rest] = filters.sort || DEFAULT_SORT;
+    const index = INDEXED_SORT_FIELDS[key.field];
+    if (hasFilters || rest.length > 0 || !key.descending || !index) return null;
 
-    return filtered;
+    const limit = filters.limit || 20;
+
+    const page = await this.cacheService.getTokenPage(index, 0, limit, true);
+    // a refresh since `version` was read may have replaced the index under us; the page would
+    // then not match its cursor's snapshot, so leave it to the snapshot path
+    const meta = await this.cacheService.getTokensMeta();
+    if (!page || meta?.cachedAt !== version) return null;
+
+    const hasMore = limit < page.total && page.tokens.length > 0;
+    return {
+      tokens: page.tokens,
+      next_cursor: hasMore ? encodeCursor(version, filters, page.tokens[page.tokens.length - 1].token_address) : undefined,
+      has_more: hasMore,
+      total_count: page.total,
+      timestamp: Date.now()
+    };
   }
-  private paginateTokens(tokens: TokenData[], filters: FilterOptions): PaginatedResponse {
+  private projectPage(page: PaginatedResponse, fields: FieldProjection): PaginatedResponse {
+    return { ...page, tokens: page.tokens.map(token => project(token, fields)) };
+  }
+  // Keyset-style: the page starts after the last address the client saw in this snapshot
+  private paginateTokens(tokens: TokenData[], filters: FilterOptions, version: number, lastAddress?: string): PaginatedResponse {
     const limit = filters.limit || 20;
-    const cursor = filters.cursor ? parseInt(filters.cursor) : 0;
-    
-    const startIndex = cursor;
+    const startIndex = lastAddress
+      ? tokens.findIndex(token => token.token_address.toLowerCase() === lastAddress) + 1
+      : 0;
+    if (lastAddress && startIndex === 0) {
+      throw new InvalidCursorError('position not found in snapshot');
+    }
+
     const endIndex = startIndex + limit;
     const paginatedTokens = tokens.slice(startIndex, endIndex);
-    
+    const hasMore = endIndex < tokens.length;
+
     return {
       tokens: paginatedTokens,
-      next_cursor: endIndex < tokens.length ? endIndex.toString() : undefined,
-      has_more: endIndex < tokens.length,
+      next_cursor: hasMore ? encodeCursor(version, filters, paginatedTokens[paginatedTokens.length - 1].token_address) : undefined,
+      has_more: hasMore,
       total_count: tokens.length,
       timestamp: Date.now()
     };
@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError } from '../utils/errors';
+import { ownerForApiKey } from '../utils/auth';
+
+// Alert routes act for the owner of the request's API key (`Authorization: Bearer <key>`
+// or `X-API-Key`); every read and delete is scoped to that owner
+export function requireOwner(req: Request, res: Response, next: NextFunction): void {
+  const authorization = req.get('authorization');
+  const apiKey = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : req.get('x-api-key');
+  const ownerId = ownerForApiKey(apiKey);
+  if (!ownerId) {
+    next(new ApiError(401, 'UNAUTHORIZED', 'A valid API key is required'));
+    return;
+  }
+  res.locals.ownerId = ownerId;
+  next();
+}
+
+// Owner set by requireOwner
+export const ownerOf = (res: Response): string => res.locals.ownerId as string;
@@ -0,0 +1,19 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError, errorBody } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Last middleware: known errors keep their status and code, everything else is a
+// generic 500 so internal messages never reach clients
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (error instanceof ApiError) {
+    res.status(error.status).json(errorBody(error.code, error.message, error.details));
+    return;
+  }
+  if ((error as { type?: string } | null)?.type === 'entity.parse.failed') {
+    res.status(400).json(errorBody('INVALID_JSON', 'Request body is not valid JSON'));
+    return;
+  }
+
+  logger.error(`Unhandled error on ${req.method} ${req.path}:`, error);
+  res.status(500).json(errorBody('INTERNAL_ERROR', 'Internal server error'));
+}
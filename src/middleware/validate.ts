@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from 'express';
+import { ObjectSchema } from 'joi';
+import { ApiError } from '../utils/errors';
+
+type RequestPart = 'params' | 'query' | 'body';
+
+// Coerced values validate() produced for each part of a request, with the schema that produced them
+const results = new WeakMap<Request, Partial<Record<RequestPart, { schema: ObjectSchema; value: unknown }>>>();
+
+// Validate and coerce request parts; unknown keys are rejected by the schemas.
+// Handlers read the coerced values through validated().
+export const validate = (schemas: Partial<Record<RequestPart, ObjectSchema>>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    for (const [part, schema] of Object.entries(schemas) as Array<[RequestPart, ObjectSchema]>) {
+      const { value, error } = schema.validate(req[part] ?? {}, { abortEarly: false });
+      // errors thrown by custom rules (e.g. filter syntax) keep their own code
+      const raised = error?.details.map(detail => detail.context?.error).find(cause => cause instanceof ApiError);
+      if (raised) {
+        next(raised);
+        return;
+      }
+      if (error) {
+        next(new ApiError(400, 'VALIDATION_ERROR', `Invalid request ${part}`, error.details.map(detail => ({
+          field: detail.path.join('.'),
+          message: detail.message,
+        }))));
+        return;
+      }
+      results.set(req, { ...results.get(req), [part]: { schema, value } });
+    }
+    next();
+  };
+
+// The value validate() produced for a request part. Asking with any other schema than the
+// route validated that part with is a wiring bug, not a client error.
+export const validated = <T>(req: Request, part: RequestPart, schema: ObjectSchema<T>): T => {
+  const result = results.get(req)?.[part];
+  if (!result || result.schema !== schema) {
+    throw new Error(`request ${part} was not validated with this schema`);
+  }
+  return result.value as T;
+};
@@ -0,0 +1,23 @@
+import { AxiosInstance } from 'axios';
+import { CoinGeckoMarket, RateLimiterApi, TokenData, TokenSourceProvider } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { mapCoinGeckoToken, validToken } from '../utils/services/DataAggregratorUtils';
+
+export class CoinGeckoProvider implements TokenSourceProvider<CoinGeckoMarket> {
+  readonly name = RateLimiterApi.COIN_GECKO;
+  readonly baseUrl = config.api.coingecko.baseUrl;
+  readonly rateLimit = { points: config.api.coingecko.rateLimit, duration: 60 };
+  readonly retry = { attempts: config.api.coingecko.retryAttempts };
+  readonly refreshInterval = config.api.coingecko.refreshInterval;
+
+  async fetch(client: AxiosInstance): Promise<CoinGeckoMarket[]> {
+    const { data } = await client.get<CoinGeckoMarket[]>('/coins/markets?vs_currency=usd&platform=solana&price_change_percentage=1h');
+    logger.info(`CoinGecko returned ${data.length} tokens`);
+    return data;
+  }
+
+  map(records: CoinGeckoMarket[]): TokenData[] {
+    return records.map(mapCoinGeckoToken).filter(validToken);
+  }
+}
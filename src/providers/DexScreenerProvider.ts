@@ -0,0 +1,34 @@
+import { AxiosInstance } from 'axios';
+import { DexScreenerPair, RateLimiterApi, TokenData, TokenSourceProvider } from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { combinePairs, mapDexScreenerToken, validToken } from '../utils/services/DataAggregratorUtils';
+
+export class DexScreenerProvider implements TokenSourceProvider<DexScreenerPair> {
+  readonly name = RateLimiterApi.DEX_SCREENER;
+  readonly baseUrl = config.api.dexscreener.baseUrl;
+  readonly rateLimit = { points: config.api.dexscreener.rateLimit, duration: 60 };
+  readonly retry = { attempts: config.api.dexscreener.retryAttempts };
+  readonly refreshInterval = config.api.dexscreener.refreshInterval;
+
+  async fetch(client: AxiosInstance): Promise<DexScreenerPair[]> {
+    const { data } = await client.get<{ pairs?: DexScreenerPair[] }>('/search?q=SOLANA');
+    const pairs = data.pairs || [];
+    logger.info(`DexScreener returned ${pairs.length} pairs`);
+    return pairs.slice(0, config.aggregation.batchSize);
+  }
+
+  async fetchToken(client: AxiosInstance, address: string): Promise<DexScreenerPair[]> {
+    const { data } = await client.get<{ pairs?: DexScreenerPair[] }>(`/tokens/${encodeURIComponent(address)}`);
+    return data.pairs || [];
+  }
+
+  async search(client: AxiosInstance, query: string): Promise<DexScreenerPair[]> {
+    const { data } = await client.get<{ pairs?: DexScreenerPair[] }>(`/search?q=${encodeURIComponent(query)}`);
+    return (data.pairs || []).slice(0, config.aggregation.batchSize);
+  }
+
+  map(records: DexScreenerPair[]): TokenData[] {
+    return combinePairs(records.map(mapDexScreenerToken).filter(validToken));
+  }
+}
@@ -0,0 +1,65 @@
+import { AxiosInstance } from 'axios';
+import {
+  GeckoTerminalIncluded,
+  GeckoTerminalPoolRecord,
+  GeckoTerminalPoolsResponse,
+  RateLimiterApi,
+  TokenData,
+  TokenSourceProvider,
+} from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { combinePairs, mapGeckoTerminalPool, validToken } from '../utils/services/DataAggregratorUtils';
+
+// On-chain pools from GeckoTerminal (trending + newly created) on the configured network
+export class GeckoTerminalProvider implements TokenSourceProvider<GeckoTerminalPoolRecord> {
+  readonly name = RateLimiterApi.GECKO_TERMINAL;
+  readonly baseUrl = config.api.geckoterminal.baseUrl;
+  readonly rateLimit = { points: config.api.geckoterminal.rateLimit, duration: 60 };
+  readonly retry = { attempts: config.api.geckoterminal.retryAttempts };
+  readonly refreshInterval = config.api.geckoterminal.refreshInterval;
+  readonly fetchCost = 2; // trending + new pools
+
+  async fetch(client: AxiosInstance): Promise<GeckoTerminalPoolRecord[]> {
+    const network = config.api.geckoterminal.network;
+    const [trending, fresh] = await Promise.all([
+      client.get<GeckoTerminalPoolsResponse>(`/networks/${network}/trending_pools?include=base_token`),
+      client.get<GeckoTerminalPoolsResponse>(`/networks/${network}/new_pools?include=base_token`),
+    ]);
+
+    const included = new Map<string, GeckoTerminalIncluded>();
+    for (const { data } of [trending, fresh]) {
+      for (const resource of data.included || []) {
+        if (resource.type === 'token') included.set(resource.id, resource);
+      }
+    }
+
+    const pools = [...(trending.data.data || []), ...(fresh.data.data || [])];
+    logger.info(`GeckoTerminal returned ${pools.length} pools`);
+    return pools.slice(0, config.aggregation.batchSize).map(pool => ({
+      pool,
+      baseToken: included.get(pool.relationships?.base_token?.data?.id ?? ''),
+    }));
+  }
+
+  // pools trading the token, largest first
+  async fetchToken(client: AxiosInstance, address: string): Promise<GeckoTerminalPoolRecord[]> {
+    const network = config.api.geckoterminal.network;
+    const { data } = await client.get<GeckoTerminalPoolsResponse>(`/networks/${network}/tokens/${encodeURIComponent(address)}/pools?include=base_token`);
+    const included = new Map(
+      (data.included || []).filter(resource => resource.type === 'token').map(resource => [resource.id, resource])
+    );
+    return (data.data || []).map(pool => ({
+      pool,
+      baseToken: included.get(pool.relationships?.base_token?.data?.id ?? ''),
+    }));
+  }
+
+  map(records: GeckoTerminalPoolRecord[]): TokenData[] {
+    return combinePairs(
+      records
+        .map(({ pool, baseToken }) => mapGeckoTerminalPool(pool, baseToken))
+        .filter(validToken)
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { TokenSourceProvider } from '../types';
+import { logger } from '../utils/logger';
+
+export class ProviderRegistry {
+  private providers: Map<string, TokenSourceProvider> = new Map();
+
+  register(provider: TokenSourceProvider): void {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Token source provider already registered: ${provider.name}`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): TokenSourceProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): TokenSourceProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // resolve the providers named in config, skipping unknown names
+  enabled(names: string[]): TokenSourceProvider[] {
+    return names.reduce<TokenSourceProvider[]>((acc, name) => {
+      const provider = this.providers.get(name);
+      if (provider) {
+        acc.push(provider);
+      } else {
+        logger.warn(`Unknown token source provider "${name}" in config, skipping`);
+      }
+      return acc;
+    }, []);
+  }
+}
@@ -0,0 +1,13 @@
+import { ProviderRegistry } from './ProviderRegistry';
+import { DexScreenerProvider } from './DexScreenerProvider';
+import { GeckoTerminalProvider } from './GeckoTerminalProvider';
+import { CoinGeckoProvider } from './CoinGeckoProvider';
+
+// Built-in sources. New sources (Jupiter, Birdeye, ...) only need a module
+// implementing TokenSourceProvider and a register() call here.
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(new DexScreenerProvider());
+providerRegistry.register(new GeckoTerminalProvider());
+providerRegistry.register(new CoinGeckoProvider());
+
+export { ProviderRegistry };
@@ -0,0 +1,100 @@
+import Joi from 'joi';
+import { CANDLE_INTERVALS, CHANGE_WINDOWS } from '../services/PriceHistoryService';
+import { ALERT_CONDITIONS, CreateAlertInput } from '../services/AlertService';
+import { config } from '../config';
+import { compileFilter } from '../utils/services/FilterExpressionUtils';
+import { CandlesQuery, SortField, TokenBatchBody, TokenFilterQuery, TokenListQuery, TokenSearchQuery } from '../types';
+import { parseSort } from '../utils/services/TokenFilterUtils';
+import { parseFields } from '../utils/services/ProjectionUtils';
+
+const SORT_FIELDS: SortField[] = ['volume', 'price_change', 'market_cap', 'liquidity', 'transaction_count'];
+
+// Solana mints are 32-44 base58 chars, EVM addresses 0x + 40 hex
+const address = Joi.string().pattern(/^[A-Za-z0-9]{20,64}$/).message('{{#label}} must be a token address');
+
+export const tokenAddressParams = Joi.object<{ address: string }>({
+  address: address.required(),
+});
+
+// presets (summary, market, full) and field names, comma separated
+const fields = Joi.string().max(1000).custom((value: string) => {
+  parseFields(value);
+  return value;
+});
+
+export const tokenDetailQuery = Joi.object<{ fields?: string }>({
+  fields,
+});
+
+const tokenFilterKeys = {
+  time_period: Joi.string().valid(...Object.keys(CHANGE_WINDOWS)),
+  sort_by: Joi.string().valid(...SORT_FIELDS),
+  sort_order: Joi.string().valid('asc', 'desc'),
+  // multi-key, e.g. -volume24h,+marketCap; replaces sort_by/sort_order, so neither may accompany it
+  sort: Joi.string().max(500).custom((value: string) => {
+    parseSort(value);
+    return value;
+  }),
+  min_liquidity: Joi.number().min(0),
+  min_volume: Joi.number().min(0),
+  protocol: Joi.string().max(64),
+  dex: Joi.string().max(64),
+  min_change: Joi.number(),
+  max_change: Joi.number(),
+  // compiled here so syntax errors come back as validation errors
+  filter: Joi.string().max(1000).custom((value: string) => {
+    compileFilter(value);
+    return value;
+  }),
+  limit: Joi.number().integer().min(1).max(100),
+};
+
+// Shared by GET /api/tokens and WebSocket feed subscriptions
+export const tokenFilterSchema = Joi.object<TokenFilterQuery>(tokenFilterKeys).without('sort', ['sort_by', 'sort_order']);
+
+export const tokenListQuery = Joi.object<TokenListQuery>({
+  ...tokenFilterKeys,
+  cursor: Joi.string().max(2048),
+  fields,
+}).without('sort', ['sort_by', 'sort_order']);
+
+export const tokenSearchQuery = Joi.object<TokenSearchQuery>({
+  q: Joi.string().trim().min(1).max(100).required(),
+  limit: Joi.number().integer().min(1).max(config.search.maxLimit),
+  fields,
+});
+
+export const tokenBatchBody = Joi.object<TokenBatchBody>({
+  addresses: Joi.array().items(address).min(1).max(config.aggregation.batchMaxAddresses).required(),
+  fields,
+});
+
+export const candlesQuery = Joi.object<CandlesQuery>({
+  interval: Joi.string().valid(...Object.keys(CANDLE_INTERVALS)).default('1h'),
+  from: Joi.number().integer().min(0),
+  to: Joi.number().integer().min(0),
+});
+
+export const createAlertBody = Joi.object<CreateAlertInput>({
+  token_address: address.required(),
+  condition: Joi.string().valid(...ALERT_CONDITIONS).required(),
+  threshold: Joi.number().strict().required(),
+  webhook: Joi.boolean(),
+});
+
+export const alertListQuery = Joi.object({});
+
+export const alertHistoryQuery = Joi.object<{ limit: number }>({
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+export const alertIdParams = Joi.object<{ id: string }>({
+  id: Joi.string().hex().length(16).required(),
+});
+
+export const deadLetterReplayQuery = Joi.object<{ limit: number }>({
+  limit: Joi.number().integer().min(1).max(500).default(50),
+});
+
+// /health and the status routes take no parameters
+export const statusQuery = Joi.object({});
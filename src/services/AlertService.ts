@@ -0,0 +1,225 @@
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { AlertCondition, AlertRule, FiredAlert, TokenData } from '../types';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ExponentialBackoff } from '../utils/rateLimiter';
+import { ApiError } from '../utils/errors';
+import { priceChangeFor } from '../utils/services/TokenFilterUtils';
+
+const RULES_KEY = 'alerts:rules';
+const ruleKey = (id: string) => `alerts:rule:${id}`;
+const ownerKey = (ownerId: string) => `alerts:owner:${ownerId}`;
+const historyKey = (ownerId: string) => `alerts:history:${ownerId}`;
+const firedKey = (ruleId: string) => `alerts:fired:${ruleId}`;
+
+export const ALERT_CONDITIONS: AlertCondition[] = ['price_above', 'price_below', 'change_1h_above', 'change_1h_below'];
+
+// network failures, 5xx and 429 may pass on a later attempt; any other response won't
+const isRetryableWebhookError = (error: Error): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+export class AlertLimitError extends ApiError {
+  constructor(limit: number) {
+    super(409, 'ALERT_LIMIT_REACHED', `Alert rule limit of ${limit} reached`);
+    this.name = 'AlertLimitError';
+  }
+}
+
+export interface CreateAlertInput {
+  token_address: string;
+  condition: AlertCondition;
+  threshold: number;
+  webhook?: boolean;
+}
+
+export class AlertService {
+  private cacheService: CacheService;
+  private websocketService: WebSocketService;
+  private pending: Array<{ alert: FiredAlert; webhook: boolean }> = [];
+  private delivering: Promise<void> | null = null;
+
+  constructor(cacheService: CacheService, websocketService: WebSocketService) {
+    this.cacheService = cacheService;
+    this.websocketService = websocketService;
+  }
+
+  async createRule(ownerId: string, input: CreateAlertInput): Promise<AlertRule> {
+    const existing = await this.cacheService.getSetMembers(ownerKey(ownerId));
+    if (existing.length >= config.alerts.maxRulesPerOwner) {
+      throw new AlertLimitError(config.alerts.maxRulesPerOwner);
+    }
+
+    const rule: AlertRule = {
+      id: randomBytes(8).toString('hex'),
+      owner_id: ownerId,
+      token_address: input.token_address.toLowerCase(),
+      condition: input.condition,
+      threshold: input.threshold,
+      webhook: input.webhook ?? true,
+      active: true,
+      last_state: false,
+      created_at: Date.now(),
+      last_fired_at: null,
+    };
+
+    await this.cacheService.setKey(ruleKey(rule.id), rule);
+    await this.cacheService.addToSet(RULES_KEY, rule.id);
+    await this.cacheService.addToSet(ownerKey(rule.owner_id), rule.id);
+    logger.info(`Alert rule ${rule.id} created for ${rule.owner_id}: ${rule.condition} ${rule.threshold} on ${rule.token_address}`);
+    return rule;
+  }
+
+  private async getRule(id: string): Promise<AlertRule | null> {
+    return this.cacheService.getKey<AlertRule>(ruleKey(id));
+  }
+
+  private async loadRules(setKey: string): Promise<AlertRule[]> {
+    const ids = await this.cacheService.getSetMembers(setKey);
+    const rules = await Promise.all(ids.map(id => this.getRule(id)));
+    return rules.filter((rule): rule is AlertRule => !!rule);
+  }
+
+  async listRules(ownerId: string): Promise<AlertRule[]> {
+    return this.loadRules(ownerKey(ownerId));
+  }
+
+  // Another owner's rule is reported as missing rather than forbidden
+  async deleteRule(id: string, ownerId: string): Promise<boolean> {
+    const rule = await this.getRule(id);
+    if (!rule || rule.owner_id !== ownerId) return false;
+
+    await this.cacheService.delKey(ruleKey(id));
+    await this.cacheService.removeFromSet(RULES_KEY, id);
+    await this.cacheService.removeFromSet(ownerKey(rule.owner_id), id);
+    return true;
+  }
+
+  async getHistory(ownerId: string, limit: number = 50): Promise<FiredAlert[]> {
+    const history = await this.cacheService.getList<FiredAlert>(historyKey(ownerId));
+    return history.slice(0, limit);
+  }
+
+  // undefined when the token has no 1h change yet; the rule is skipped until it does
+  private valueFor(condition: AlertCondition, token: TokenData): number | undefined {
+    return condition.startsWith('price_') ? token.price : priceChangeFor(token, '1h');
+  }
+
+  private isMet(rule: AlertRule, value: number): boolean {
+    return rule.condition.endsWith('_above') ? value > rule.threshold : value < rule.threshold;
+  }
+
+  // Evaluate every rule against the fresh snapshot; rules fire on the edge, not while the condition holds.
+  // Webhooks go out in the background so slow receivers never hold up the refresh cycle.
+  async evaluate(tokens: TokenData[]): Promise<FiredAlert[]> {
+    const byAddress = new Map(tokens.map(token => [token.token_address.toLowerCase(), token]));
+    const rules = await this.loadRules(RULES_KEY);
+    const fired: FiredAlert[] = [];
+
+    for (const rule of rules) {
+      const token = byAddress.get(rule.token_address);
+      if (!rule.active || !token) continue;
+
+      const value = this.valueFor(rule.condition, token);
+      if (value === undefined) continue;
+      const state = this.isMet(rule, value);
+      if (state === rule.last_state) continue;
+
+      rule.last_state = state;
+      if (state) rule.last_fired_at = Date.now();
+      // a rule deleted since loadRules stays deleted
+      if (!await this.cacheService.setIfPresent(ruleKey(rule.id), rule)) continue;
+      if (!state) continue;
+
+      // concurrent evaluations both see the edge; only the first to claim the cooldown fires
+      const claimed = await this.cacheService.setIfAbsent(firedKey(rule.id), rule.last_fired_at, config.alerts.cooldownSeconds);
+      if (!claimed) continue;
+
+      const alert: FiredAlert = {
+        id: randomBytes(8).toString('hex'),
+        rule_id: rule.id,
+        owner_id: rule.owner_id,
+        token_address: rule.token_address,
+        token_ticker: token.token_ticker,
+        condition: rule.condition,
+        threshold: rule.threshold,
+        value,
+        fired_at: rule.last_fired_at!,
+      };
+      fired.push(alert);
+
+      await this.websocketService.sendToOwner(alert.owner_id, {
+        type: 'alert_triggered',
+        data: alert,
+        timestamp: alert.fired_at
+      });
+      this.pending.push({ alert, webhook: rule.webhook });
+    }
+
+    if (fired.length > 0) {
+      logger.info(`Fired ${fired.length} user alerts`);
+      this.delivering ??= this.drainDeliveries();
+    }
+    return fired;
+  }
+
+  // Resolves once every queued webhook has been attempted and recorded; used on shutdown
+  async flushDeliveries(): Promise<void> {
+    await this.delivering;
+  }
+
+  private async drainDeliveries(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, config.alerts.deliveryConcurrency);
+      await Promise.all(batch.map(({ alert, webhook }) => this.deliver(alert, webhook)));
+    }
+    this.delivering = null;
+  }
+
+  private async deliver(alert: FiredAlert, webhook: boolean): Promise<void> {
+    if (!webhook || !config.alerts.webhookUrl) {
+      alert.webhook_status = 'skipped';
+    } else {
+      try {
+        await this.sendWebhook(alert);
+        alert.webhook_status = 'delivered';
+      } catch (error) {
+        alert.webhook_status = 'failed';
+        logger.error(`Webhook delivery failed for alert ${alert.id}:`, error);
+      }
+    }
+
+    try {
+      await this.cacheService.pushToList(historyKey(alert.owner_id), alert, config.alerts.historySize);
+    } catch (error) {
+      logger.error(`Error recording alert ${alert.id}:`, error);
+    }
+  }
+
+  // Body is signed as HMAC-SHA256(secret, `${timestamp}.${body}`) so receivers can reject replays
+  private async sendWebhook(alert: FiredAlert): Promise<void> {
+    const body = JSON.stringify(alert);
+
+    await ExponentialBackoff.retry(async () => {
+      const timestamp = Date.now().toString();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MemeCoinAggregator/1.0',
+        'X-Alert-Timestamp': timestamp,
+      };
+      if (config.alerts.webhookSecret) {
+        const signature = createHmac('sha256', config.alerts.webhookSecret)
+          .update(`${timestamp}.${body}`)
+          .digest('hex');
+        headers['X-Alert-Signature'] = `sha256=${signature}`;
+      }
+
+      await axios.post(config.alerts.webhookUrl, body, { headers, timeout: config.alerts.webhookTimeout });
+    }, config.alerts.webhookRetryAttempts, undefined, isRetryableWebhookError);
+  }
+}
@@ -1,80 +1,190 @@
-import { createClient, RedisClientType } from 'redis';
-import { TokenData } from '../types';
+import { CacheBackend, CacheWrite, CachedSnapshot, SearchIndexEntry, TokenData } from '../types';
+import { MemoryCacheBackend, RedisCacheBackend } from '../cache';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { buildSearchIndex } from '../utils/services/TokenSearchUtils';
 
-// Create Redis client (remove this from your other file)
-const client: RedisClientType = createClient({
-  username: 'default',
-  password: 'rRlmzmHJ9dhY2z6ZBpgYLGtLclYJOaZ4',
-  socket: {
-    host: 'redis-14673.c14.us-east-1-3.ec2.cloud.redislabs.com',
-    port: 14673
-  }
-});
+const tokenKey = (address: string) => `token:${address.toLowerCase()}`;
+const snapshotKey = (version: number) => `tokens:snapshot:${version}`;
+const retainedKey = (version: number) => `tokens:snapshot:${version}:retained`;
+
+export type TokenIndex = 'volume' | 'market_cap' | 'liquidity' | 'transaction_count';
+
+export const TOKEN_INDEXES: Record<TokenIndex, { key: string; score: (token: TokenData) => number }> = {
+  volume: { key: 'tokens:idx:volume', score: token => token.volume24h },
+  market_cap: { key: 'tokens:idx:market_cap', score: token => token.marketCap },
+  liquidity: { key: 'tokens:idx:liquidity', score: token => token.liquidity },
+  transaction_count: { key: 'tokens:idx:txns', score: token => token.transaction_count },
+};
+
+// hash fields hold JSON so numbers, nulls and nested objects round-trip
+const toHash = (token: TokenData): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(token)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => [field, JSON.stringify(value)])
+  );
+
+// replace the token's hash wholesale so fields dropped upstream don't linger
+const tokenWrites = (token: TokenData, ttl: number): CacheWrite[] => {
+  const key = tokenKey(token.token_address);
+  return [
+    { op: 'del', key },
+    { op: 'hset', key, fields: toHash(token) },
+    { op: 'expire', key, ttl },
+  ];
+};
+
+const fromHash = (hash: Record<string, string>): TokenData =>
+  Object.fromEntries(
+    Object.entries(hash).map(([field, value]) => [field, JSON.parse(value)])
+  ) as unknown as TokenData;
 
 export class CacheService {
-  private redis: RedisClientType;
+  private primary: CacheBackend;
+  private fallback: CacheBackend | null;
   private readonly DEFAULT_TTL = config.redis.ttl;
-  private isConnected: boolean = false;
-
-  constructor() {
-    this.redis = client;
-    this.setupEventListeners();
-    this.connect(); // Ensure connection on initialization
-  }
-
-  private async connect(): Promise<void> {
-    if (!this.isConnected) {
-      try {
-        await this.redis.connect();
-        this.isConnected = true;
-      } catch (error) {
-        logger.error('Failed to connect to Redis:', error);
-        throw error;
+  private degraded = false;
+  // parsed search index of the current snapshot, so searches don't re-read the whole blob
+  private searchIndexCache: { version: number; index: SearchIndexEntry[] } | null = null;
+
+  constructor(primary?: CacheBackend) {
+    this.primary = primary ?? (config.cache.backend === 'memory'
+      ? new MemoryCacheBackend(config.cache.maxEntries, config.cache.persistentPrefixes)
+      : new RedisCacheBackend());
+    this.fallback = config.cache.fallback && this.primary.name !== 'memory'
+      ? new MemoryCacheBackend(config.cache.maxEntries, config.cache.persistentPrefixes)
+      : null;
+
+    this.primary.connect().catch((error) => {
+      logger.error(`Failed to connect ${this.primary.name} cache backend:`, error);
+    });
+  }
+
+  // The primary backend while it is up, otherwise the in-memory fallback (if enabled)
+  private get backend(): CacheBackend {
+    const useFallback = !!this.fallback && !this.primary.isReady();
+    if (useFallback !== this.degraded) {
+      this.degraded = useFallback;
+      if (useFallback) {
+        logger.warn(`${this.primary.name} cache unavailable, falling back to in-memory cache`);
+      } else {
+        logger.info(`${this.primary.name} cache available again`);
       }
     }
+    return useFallback ? this.fallback! : this.primary;
   }
 
-  private setupEventListeners(): void {
-    this.redis.on('connect', () => {
-      logger.info('Redis connected successfully');
-      this.isConnected = true;
-    });
+  getBackendName(): string {
+    return this.backend.name;
+  }
 
-    this.redis.on('error', (error: any) => {
-      logger.error('Redis connection error:', error);
-      this.isConnected = false;
-    });
+  // Whole snapshot, per-token hashes, sorted indexes and the search index in one transaction.
+  // Returns the snapshot version that pagination cursors refer to (see retainSnapshot).
+  async setTokens(tokens: TokenData[], ttl: number = this.DEFAULT_TTL): Promise<number> {
+    try {
+      // the snapshot outlives its TTL by staleTtl so it can be served stale while refreshing
+      const snapshotTtl = ttl + config.redis.staleTtl;
+      const version = Date.now();
+      const writes: CacheWrite[] = [
+        { op: 'set', key: 'tokens:all', value: JSON.stringify(tokens), ttl: snapshotTtl },
+        { op: 'set', key: 'tokens:meta', value: JSON.stringify({ cachedAt: version, ttl }), ttl: snapshotTtl },
+        // expires with the per-token hashes its matches are read from
+        { op: 'set', key: 'tokens:search', value: JSON.stringify(buildSearchIndex(tokens)), ttl },
+      ];
 
-    this.redis.on('end', () => {
-      logger.info('Redis connection closed');
-      this.isConnected = false;
-    });
-  }
+      for (const index of Object.values(TOKEN_INDEXES)) {
+        writes.push({ op: 'del', key: index.key });
+      }
+      for (const token of tokens) {
+        const address = token.token_address.toLowerCase();
+        writes.push(...tokenWrites(token, ttl));
+        for (const index of Object.values(TOKEN_INDEXES)) {
+          writes.push({ op: 'zadd', key: index.key, score: index.score(token) || 0, member: address });
+        }
+      }
+      for (const index of Object.values(TOKEN_INDEXES)) {
+        writes.push({ op: 'expire', key: index.key, ttl });
+      }
 
-  private async ensureConnected(): Promise<void> {
-    if (!this.isConnected) {
-      await this.connect();
+      await this.backend.exec(writes);
+      logger.debug(`Cached ${tokens.length} tokens with per-token keys`);
+      return version;
+    } catch (error) {
+      logger.error('Error caching tokens:', error);
+      throw error;
     }
   }
 
-  async setTokens(tokens: TokenData[], ttl: number = this.DEFAULT_TTL): Promise<void> {
+  async setToken(token: TokenData, ttl: number = this.DEFAULT_TTL): Promise<void> {
     try {
-      await this.ensureConnected();
-      await this.redis.setEx('tokens:all', ttl, JSON.stringify(tokens));
-      console.log("tokens set");
+      await this.backend.exec(tokenWrites(token, ttl));
     } catch (error) {
-      logger.error('Error caching tokens:', error);
+      logger.error('Error caching token:', error);
       throw error;
     }
   }
 
+  // Fresh snapshot only; use getTokensEntry to also see an expired one
   async getTokens(): Promise<TokenData[] | null> {
+    const entry = await this.getTokensEntry();
+    return entry && !entry.stale ? entry.tokens : null;
+  }
+
+  async getTokensMeta(): Promise<{ cachedAt: number; ttl: number } | null> {
+    return this.getKey<{ cachedAt: number; ttl: number }>('tokens:meta');
+  }
+
+  // Copy of snapshot `version` that open paging sessions finish on. Written when the first
+  // cursor for a version is issued rather than on every refresh, and once per version while
+  // the copy lives on any instance. `load` supplies the tokens, or null if that version is gone.
+  async retainSnapshot(version: number, load: () => Promise<TokenData[] | null>): Promise<boolean> {
     try {
-      await this.ensureConnected();
-      const cached = await this.redis.get('tokens:all');
-      return cached ? JSON.parse(cached) : null;
+      // the small marker says the copy exists without reading it back
+      if (await this.backend.get(retainedKey(version))) return true;
+
+      const tokens = await load();
+      if (!tokens) return false;
+      const ttl = config.pagination.cursorTtl;
+      await this.backend.exec([
+        { op: 'set', key: snapshotKey(version), value: JSON.stringify(tokens), ttl },
+        { op: 'set', key: retainedKey(version), value: '1', ttl },
+      ]);
+      return true;
+    } catch (error) {
+      logger.error('Error retaining snapshot:', error);
+      throw error;
+    }
+  }
+
+  async getSnapshot(version: number): Promise<TokenData[] | null> {
+    return this.getKey<TokenData[]>(snapshotKey(version));
+  }
+
+  // Only the small meta key is read per call; the index itself is re-read when the snapshot changes
+  async getSearchIndex(): Promise<SearchIndexEntry[] | null> {
+    const meta = await this.getTokensMeta();
+    if (!meta || Date.now() >= meta.cachedAt + meta.ttl * 1000) return null;
+    if (this.searchIndexCache?.version === meta.cachedAt) return this.searchIndexCache.index;
+
+    const index = await this.getKey<SearchIndexEntry[]>('tokens:search');
+    this.searchIndexCache = index ? { version: meta.cachedAt, index } : null;
+    return index;
+  }
+
+  async getTokensEntry(): Promise<CachedSnapshot | null> {
+    try {
+      const [cached, meta] = await Promise.all([this.backend.get('tokens:all'), this.getTokensMeta()]);
+      if (!cached) return null;
+
+      const cachedAt = meta?.cachedAt ?? Date.now();
+      const ageSeconds = Math.floor((Date.now() - cachedAt) / 1000);
+      return {
+        tokens: JSON.parse(cached),
+        cachedAt,
+        ageSeconds,
+        stale: ageSeconds >= (meta?.ttl ?? this.DEFAULT_TTL)
+      };
     } catch (error) {
       logger.error('Error retrieving tokens from cache:', error);
       return null;
@@ -83,23 +193,40 @@ export class CacheService {
 
   async getToken(address: string): Promise<TokenData | null> {
     try {
-      await this.ensureConnected();
-      const cached = await this.redis.get(`token:${address.toLowerCase()}`);
-      return cached ? JSON.parse(cached) : null;
+      const hash = await this.backend.hGetAll(tokenKey(address));
+      return Object.keys(hash).length ? fromHash(hash) : null;
     } catch (error) {
       logger.error('Error retrieving token from cache:', error);
       return null;
     }
   }
 
-  async setKey(key: string, value: any, ttl?: number): Promise<void> {
+  // One page of a sorted index without touching the full snapshot
+  async getTokenPage(
+    index: TokenIndex,
+    offset: number,
+    limit: number,
+    descending: boolean
+  ): Promise<{ tokens: TokenData[]; total: number } | null> {
     try {
-      await this.ensureConnected();
-      if (ttl) {
-        await this.redis.setEx(key, ttl, JSON.stringify(value));
-      } else {
-        await this.redis.set(key, JSON.stringify(value));
-      }
+      const backend = this.backend;
+      const key = TOKEN_INDEXES[index].key;
+      const total = await backend.zCard(key);
+      if (total === 0) return null;
+
+      const addresses = await backend.zRange(key, offset, offset + limit - 1, descending);
+      const hashes = await Promise.all(addresses.map(address => backend.hGetAll(tokenKey(address))));
+      const tokens = hashes.filter(hash => Object.keys(hash).length > 0).map(fromHash);
+      return { tokens, total };
+    } catch (error) {
+      logger.error('Error reading token index:', error);
+      return null;
+    }
+  }
+
+  async setKey(key: string, value: unknown, ttl?: number): Promise<void> {
+    try {
+      await this.backend.exec([{ op: 'set', key, value: JSON.stringify(value), ttl }]);
     } catch (error) {
       logger.error('Error setting cache key:', error);
       throw error;
@@ -108,8 +235,7 @@ export class CacheService {
 
   async getKey<T>(key: string): Promise<T | null> {
     try {
-      await this.ensureConnected();
-      const cached = await this.redis.get(key);
+      const cached = await this.backend.get(key);
       return cached ? JSON.parse(cached) : null;
     } catch (error) {
       logger.error('Error getting cache key:', error);
@@ -117,30 +243,167 @@ export class CacheService {
     }
   }
 
+  // Set only if the key does not exist yet; returns whether it was set
+  async setIfAbsent(key: string, value: unknown, ttl: number): Promise<boolean> {
+    try {
+      return await this.backend.setIfAbsent(key, JSON.stringify(value), ttl);
+    } catch (error) {
+      logger.error('Error setting cache key:', error);
+      throw error;
+    }
+  }
+
+  // Overwrite only if the key still exists, so a concurrent delete isn't undone
+  async setIfPresent(key: string, value: unknown): Promise<boolean> {
+    try {
+      return await this.backend.setIfPresent(key, JSON.stringify(value));
+    } catch (error) {
+      logger.error('Error setting cache key:', error);
+      throw error;
+    }
+  }
+
+  async addToSet(key: string, member: string): Promise<void> {
+    try {
+      await this.backend.sAdd(key, member);
+    } catch (error) {
+      logger.error('Error adding set member:', error);
+      throw error;
+    }
+  }
+
+  async removeFromSet(key: string, member: string): Promise<void> {
+    try {
+      await this.backend.sRem(key, member);
+    } catch (error) {
+      logger.error('Error removing set member:', error);
+      throw error;
+    }
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    try {
+      return await this.backend.sMembers(key);
+    } catch (error) {
+      logger.error('Error getting set members:', error);
+      return [];
+    }
+  }
+
+  // Prepend to a list capped at maxLength entries (newest first)
+  async pushToList(key: string, value: unknown, maxLength: number): Promise<void> {
+    try {
+      await this.backend.exec([{ op: 'lpush', key, value: JSON.stringify(value), maxLength }]);
+    } catch (error) {
+      logger.error('Error pushing to list:', error);
+      throw error;
+    }
+  }
+
+  async getList<T>(key: string, start: number = 0, stop: number = -1): Promise<T[]> {
+    try {
+      const items = await this.backend.lRange(key, start, stop);
+      return items.map(item => JSON.parse(item));
+    } catch (error) {
+      logger.error('Error reading list:', error);
+      return [];
+    }
+  }
+
+  // Write one scored member per sorted set in a single transaction, replacing any member
+  // already at that score and trimming everything older than minScore
+  // Sets also expire `ttl` seconds after their last write, so keys of tokens that stop
+  // being sampled don't outlive the retention window
+  async addToSortedSets(entries: Array<{ key: string; score: number; value: unknown }>, minScore: number, ttl: number): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await this.backend.exec(entries.flatMap(({ key, score, value }): CacheWrite[] => [
+        { op: 'zremScore', key, score },
+        { op: 'zadd', key, score, member: JSON.stringify(value) },
+        { op: 'ztrim', key, minScore },
+        { op: 'expire', key, ttl },
+      ]));
+    } catch (error) {
+      logger.error('Error writing sorted sets:', error);
+      throw error;
+    }
+  }
+
+  async getSortedSetRange<T>(key: string, min: number, max: number): Promise<T[]> {
+    try {
+      const members = await this.backend.zRangeByScore(key, min, max);
+      return members.map(member => JSON.parse(member));
+    } catch (error) {
+      logger.error('Error reading sorted set:', error);
+      return [];
+    }
+  }
+
+  // Highest-scored member at or below each of a key's scores, one backend call per key
+  async getLatestAtOrBefore<T>(queries: Array<{ key: string; scores: number[] }>): Promise<Array<Array<T | null>>> {
+    try {
+      const backend = this.backend;
+      const results = await Promise.all(queries.map(({ key, scores }) => backend.zLatestAtOrBefore(key, scores)));
+      return results.map(members => members.map(member => (member ? JSON.parse(member) : null)));
+    } catch (error) {
+      logger.error('Error reading sorted sets:', error);
+      return queries.map(({ scores }) => scores.map(() => null));
+    }
+  }
+
   async delKey(key: string): Promise<void> {
     try {
-      await this.ensureConnected();
-      await this.redis.del(key);
+      await this.backend.exec([{ op: 'del', key }]);
     } catch (error) {
       logger.error('Error deleting cache key:', error);
       throw error;
     }
   }
 
-  async disconnect(): Promise<void> {
-    if (this.isConnected) {
-      await this.redis.quit();
-      this.isConnected = false;
+  // Take or extend a lock held by `owner`; returns false if someone else holds it
+  async acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    try {
+      return await this.backend.acquireLock(key, owner, ttlMs);
+    } catch (error) {
+      logger.error('Error acquiring lock:', error);
+      return false;
     }
   }
 
-  // Health check method
-  async healthCheck(): Promise<boolean> {
+  async releaseLock(key: string, owner: string): Promise<void> {
     try {
-      await this.redis.ping();
-      return true;
+      await this.backend.releaseLock(key, owner);
     } catch (error) {
-      return false;
+      logger.error('Error releasing lock:', error);
+    }
+  }
+
+  // Reaches every instance, this one included, through whichever backend is serving;
+  // on the memory fallback that is this instance alone
+  async publish(channel: string, message: unknown): Promise<void> {
+    try {
+      await this.backend.publish(channel, JSON.stringify(message));
+    } catch (error) {
+      logger.error(`Error publishing to ${channel}:`, error);
+      throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Listens on the fallback as well so messages keep flowing while degraded
+  async subscribe<T>(channel: string, listener: (message: T) => void): Promise<void> {
+    const onMessage = (message: string) => listener(JSON.parse(message));
+    await Promise.all([this.primary, this.fallback]
+      .filter((backend): backend is CacheBackend => !!backend)
+      .map(backend => backend.subscribe(channel, onMessage)));
+  }
+
+  async disconnect(): Promise<void> {
+    await this.primary.disconnect();
+    await this.fallback?.disconnect();
+  }
+
+  // Healthy while the primary backend answers, or while the fallback is serving
+  async healthCheck(): Promise<boolean> {
+    return (await this.primary.ping()) || !!this.fallback;
+  }
+}
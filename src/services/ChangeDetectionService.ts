@@ -0,0 +1,97 @@
+import { ChangeMetric, ChangeThresholds, SignificantChange, TokenData } from '../types';
+import { CacheService } from './CacheService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+const PREVIOUS_SNAPSHOT_KEY = 'changes:previous';
+
+// only the metrics we compare are kept between cycles
+type MetricSnapshot = Record<string, { price: number; volume24h: number; marketCap: number; liquidity: number }>;
+
+export class ChangeDetectionService {
+  private cacheService: CacheService;
+
+  constructor(cacheService: CacheService) {
+    this.cacheService = cacheService;
+  }
+
+  private thresholdsFor(address: string): ChangeThresholds {
+    return { ...config.changeDetection.thresholds, ...config.changeDetection.tokenThresholds[address] };
+  }
+
+  private relativeChange(previous: number, current: number): number {
+    return Math.abs(current - previous) / previous;
+  }
+
+  // compare one token against its previous metrics
+  private detect(token: TokenData, previous: MetricSnapshot[string], thresholds: ChangeThresholds): SignificantChange[] {
+    const changes: SignificantChange[] = [];
+    const record = (metric: ChangeMetric, before: number, after: number) =>
+      changes.push({
+        metric,
+        token,
+        previous: before,
+        current: after,
+        change_percent: ((after - before) / before) * 100,
+      });
+
+    if (previous.price > 0 && token.price > 0 && this.relativeChange(previous.price, token.price) > thresholds.price) {
+      record('price', previous.price, token.price);
+    }
+
+    if (previous.volume24h > 0 && token.volume24h > previous.volume24h * thresholds.volumeSpike) {
+      record('volume', previous.volume24h, token.volume24h);
+    }
+
+    if (previous.marketCap > 0 && token.marketCap > 0
+      && this.relativeChange(previous.marketCap, token.marketCap) > thresholds.marketCap) {
+      record('market_cap', previous.marketCap, token.marketCap);
+    }
+
+    if (previous.liquidity > 0 && token.liquidity > 0
+      && this.relativeChange(previous.liquidity, token.liquidity) > thresholds.liquidity) {
+      record('liquidity', previous.liquidity, token.liquidity);
+    }
+
+    return changes;
+  }
+
+  // first alert for a token and metric inside the debounce window wins
+  private async shouldEmit(change: SignificantChange): Promise<boolean> {
+    const key = `changes:debounce:${change.token.token_address.toLowerCase()}:${change.metric}`;
+    return this.cacheService.setIfAbsent(key, Date.now(), config.changeDetection.debounceSeconds);
+  }
+
+  // Compare against the previous cycle's snapshot and return changes past their thresholds
+  async evaluate(tokens: TokenData[]): Promise<SignificantChange[]> {
+    const previous = await this.cacheService.getKey<MetricSnapshot>(PREVIOUS_SNAPSHOT_KEY);
+
+    const next: MetricSnapshot = {};
+    for (const token of tokens) {
+      next[token.token_address.toLowerCase()] = {
+        price: token.price,
+        volume24h: token.volume24h,
+        marketCap: token.marketCap,
+        liquidity: token.liquidity,
+      };
+    }
+    await this.cacheService.setKey(PREVIOUS_SNAPSHOT_KEY, next);
+
+    if (!previous) return [];
+
+    const detected = tokens.flatMap((token) => {
+      const address = token.token_address.toLowerCase();
+      return previous[address] ? this.detect(token, previous[address], this.thresholdsFor(address)) : [];
+    });
+
+    const changes: SignificantChange[] = [];
+    for (const change of detected) {
+      if (await this.shouldEmit(change)) changes.push(change);
+    }
+
+    if (changes.length > 0) {
+      logger.info(`Detected ${changes.length} significant changes (${detected.length - changes.length} debounced)`);
+    }
+    return changes;
+  }
+}
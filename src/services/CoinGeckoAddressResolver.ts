@@ -0,0 +1,111 @@
+import { CoinGeckoListEntry, TokenData } from '../types';
+import { CacheService } from './CacheService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { nameSimilarity } from '../utils/services/DataAggregratorUtils';
+
+// v2: addresses keep their casing; v1 entries were lowercased
+const PLATFORMS_CACHE_KEY = 'coingecko:platforms:solana:v2';
+
+// CoinGecko id -> Solana mint address
+type PlatformMap = Record<string, string>;
+
+export class CoinGeckoAddressResolver {
+  private cacheService: CacheService;
+  private fetchCoinsList: () => Promise<CoinGeckoListEntry[]>;
+  private platforms: PlatformMap | null = null;
+  private loadedAt = 0;
+  private failedAt = 0;
+
+  constructor(cacheService: CacheService, fetchCoinsList: () => Promise<CoinGeckoListEntry[]>) {
+    this.cacheService = cacheService;
+    this.fetchCoinsList = fetchCoinsList;
+  }
+
+  private async loadPlatforms(): Promise<PlatformMap> {
+    const ttlMs = config.api.coingecko.platformsTtl * 1000;
+    if (this.platforms && Date.now() - this.loadedAt < ttlMs) {
+      return this.platforms;
+    }
+
+    let platforms = await this.cacheService.getKey<PlatformMap>(PLATFORMS_CACHE_KEY);
+    if (!platforms) {
+      // the list is large; after a failure keep using what we had instead of refetching every cycle
+      if (Date.now() - this.failedAt < config.api.coingecko.platformsRetryDelay * 1000) {
+        if (this.platforms) return this.platforms;
+        throw new Error('CoinGecko coins list fetch failed recently, not retrying yet');
+      }
+
+      let coins: CoinGeckoListEntry[];
+      try {
+        coins = await this.fetchCoinsList();
+      } catch (error) {
+        this.failedAt = Date.now();
+        throw error;
+      }
+      platforms = {};
+      for (const coin of coins) {
+        const address = coin.platforms?.solana;
+        if (coin.id && address) platforms[coin.id] = address;
+      }
+      logger.info(`Loaded ${Object.keys(platforms).length} CoinGecko Solana platform addresses`);
+      await this.cacheService
+        .setKey(PLATFORMS_CACHE_KEY, platforms, config.api.coingecko.platformsTtl)
+        .catch(() => undefined);
+    }
+
+    this.platforms = platforms;
+    this.loadedAt = Date.now();
+    return platforms;
+  }
+
+  // best on-chain token sharing the ticker, scored by name similarity
+  private fuzzyMatch(token: TokenData, candidates: TokenData[]): { address: string; confidence: number } | null {
+    let best: { address: string; confidence: number } | null = null;
+
+    for (const candidate of candidates) {
+      if (candidate.token_ticker.toUpperCase() !== token.token_ticker.toUpperCase()) continue;
+      const confidence = 0.4 + 0.6 * nameSimilarity(candidate.token_name, token.token_name);
+      if (!best || confidence > best.confidence) {
+        best = { address: candidate.token_address, confidence };
+      }
+    }
+
+    return best;
+  }
+
+  // Rewrite CoinGecko tokens keyed by slug to their mint address so they merge with on-chain sources
+  async resolve(coingeckoTokens: TokenData[], onChainTokens: TokenData[]): Promise<TokenData[]> {
+    let platforms: PlatformMap = {};
+    try {
+      platforms = await this.loadPlatforms();
+    } catch (error) {
+      logger.warn('CoinGecko platform list unavailable, falling back to fuzzy matching');
+    }
+
+    let resolved = 0;
+    const result = coingeckoTokens.map((token) => {
+      const address = platforms[token.token_address];
+      if (address) {
+        resolved++;
+        return { ...token, token_address: address, mergeConfidence: 1, addressResolution: 'platform' as const };
+      }
+
+      const match = this.fuzzyMatch(token, onChainTokens);
+      if (match && match.confidence >= config.api.coingecko.fuzzyMatchThreshold) {
+        resolved++;
+        return {
+          ...token,
+          token_address: match.address,
+          mergeConfidence: Number(match.confidence.toFixed(3)),
+          addressResolution: 'fuzzy' as const,
+        };
+      }
+
+      return token;
+    });
+
+    logger.debug(`Resolved ${resolved}/${coingeckoTokens.length} CoinGecko tokens to mint addresses`);
+    return result;
+  }
+}
@@ -1,19 +1,43 @@
 import axios, { AxiosInstance } from 'axios';
-import { RateLimiterApi, TokenData } from '../types';
-import { APIRateLimiter, ExponentialBackoff } from '../utils/rateLimiter';
+import { AggregationResult, CoinGeckoListEntry, ProviderFetchResult, ProviderSnapshot, RateLimiterApi, TokenData, TokenSourceProvider } from '../types';
+import { APIRateLimiter, ExponentialBackoff, RateLimitError } from '../utils/rateLimiter';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { mapCoinGeckoToken, mapDexScreenerToken, mergeTokenData, validToken } from '../utils/services/DataAggregratorUtils';
+import { mergeTokenGroup } from '../utils/services/DataAggregratorUtils';
+import { providerRegistry, ProviderRegistry } from '../providers';
+import { CacheService } from './CacheService';
+import { CoinGeckoAddressResolver } from './CoinGeckoAddressResolver';
 
 export class DataAggregatorService {
-  private clients: Record<'dexscreener' | 'geckoterminal', AxiosInstance>;
+  private providers: TokenSourceProvider[];
+  private clients: Map<string, AxiosInstance> = new Map();
   private rateLimiter = new APIRateLimiter();
+  private lastResults: Map<string, ProviderFetchResult> = new Map();
+  private latest: Map<string, ProviderSnapshot> = new Map();
+  private addressResolver: CoinGeckoAddressResolver | null = null;
 
-  constructor() {
-    this.clients = {
-      dexscreener: this.createClient(config.api.dexscreener.baseUrl),
-      geckoterminal: this.createClient(config.api.geckoterminal.baseUrl),
-    };
+  constructor(
+    cacheService?: CacheService,
+    registry: ProviderRegistry = providerRegistry,
+    enabled: string[] = config.aggregation.providers
+  ) {
+    this.providers = registry.enabled(enabled);
+    for (const provider of this.providers) {
+      this.clients.set(provider.name, this.createClient(provider.baseUrl));
+      this.rateLimiter.register(provider.name, provider.rateLimit.points, provider.rateLimit.duration);
+    }
+
+    const coingecko = this.providers.find(p => p.name === RateLimiterApi.COIN_GECKO);
+    if (cacheService && coingecko) {
+      this.addressResolver = new CoinGeckoAddressResolver(cacheService, () =>
+        this.fetchWithRetry(
+          coingecko.name,
+          async () => (await this.clients.get(coingecko.name)!.get<CoinGeckoListEntry[]>('/coins/list?include_platform=true')).data,
+          coingecko.retry.attempts
+        )
+      );
+    }
+    logger.info(`Token source providers enabled: ${this.providers.map(p => p.name).join(', ') || 'none'}`);
   }
 
   //axios clients
@@ -38,90 +62,239 @@ export class DataAggregatorService {
     return client;
   }
 
- // rate limit and fetch
+ // rate limit and fetch; an exhausted budget fails straight away instead of backing off
   private async fetchWithRetry<T>(
-    api: RateLimiterApi,
+    api: string,
     request: () => Promise<T>,
-    retries: number
+    retries: number,
+    baseDelay?: number,
+    cost: number = 1,
+    reserve: number = 0
   ): Promise<T> {
     return ExponentialBackoff.retry(async () => {
-      await this.rateLimiter.checkLimit(api);
+      await this.rateLimiter.checkLimit(api, cost, reserve);
       return request();
-    }, retries);
+    }, retries, baseDelay, error => !(error instanceof RateLimitError));
   }
 
-  // fetch from dexscreener
-  async fetchFromDexScreener(): Promise<TokenData[]> {
-    const { dexscreener } = this.clients;
+  // Points of a provider's budget that on-demand requests leave to scheduled ingestion
+  private onDemandReserve(provider: TokenSourceProvider): number {
+    return Math.ceil(provider.rateLimit.points * config.aggregation.onDemandReserve);
+  }
 
-    return this.fetchWithRetry(
-      RateLimiterApi.DEX_SCREENER,
-      async () => {
-        const { data } = await dexscreener.get('/search?q=SOLANA');
-        const pairs = data.pairs || [];
-        logger.info(`DexScreener returned ${pairs.length} pairs`);
-
-        return pairs
-          .slice(0, config.aggregation.batchSize)
-          .map(mapDexScreenerToken)
-          .filter(validToken);
-      },
-      config.api.dexscreener.retryAttempts
-    );
+  // Map a response, stamping its arrival time on records that carry no upstream timestamp
+  // so the `freshest` merge strategy compares when each source actually observed a value
+  private mapRecords(provider: TokenSourceProvider, records: unknown[]): TokenData[] {
+    const fetchedAt = new Date().toISOString();
+    return provider.map(records).map(token => (token.lastUpdated ? token : { ...token, lastUpdated: fetchedAt }));
   }
 
-  // fetch from geckoterminal
-  async fetchFromGeckoTerminal(): Promise<TokenData[]> {
-    const { geckoterminal } = this.clients;
+  // fetch and map from a single provider
+  async fetchFromProvider(provider: TokenSourceProvider): Promise<TokenData[]> {
+    const client = this.clients.get(provider.name)!;
 
     return this.fetchWithRetry(
-      RateLimiterApi.GECKO_TERMINAL,
-      async () => {
-        const { data } = await geckoterminal.get(
-          '/coins/markets?vs_currency=usd&platform=solana'
-        );
-        logger.info(`CoinGecko returned ${data.length} tokens`);
-        return data.map(mapCoinGeckoToken).filter(validToken);
-      },
-      config.api.geckoterminal.retryAttempts
+      provider.name,
+      async () => this.mapRecords(provider, await provider.fetch(client)),
+      provider.retry.attempts,
+      provider.retry.baseDelay,
+      provider.fetchCost
     );
   }
 
+  getProviderStatus(): ProviderFetchResult[] {
+    return Array.from(this.lastResults.values());
+  }
+
   // merge token arrays
   mergeTokens(tokenArrays: TokenData[][]): TokenData[] {
-    const tokenMap = new Map<string, TokenData>();
+    const groups = new Map<string, TokenData[]>();
 
     for (const token of tokenArrays.flat()) {
       const key = token.token_address.toLowerCase();
       if (!key) continue;
 
-      if (tokenMap.has(key)) {
-        tokenMap.set(key, mergeTokenData(tokenMap.get(key)!, token));
+      const group = groups.get(key);
+      if (group) {
+        group.push(token);
       } else {
-        tokenMap.set(key, token);
+        groups.set(key, [token]);
       }
     }
 
-    return Array.from(tokenMap.values())
+    return Array.from(groups.values())
+      .map(group => mergeTokenGroup(group))
       .slice(0, config.aggregation.maxTokens);
   }
 
+  // map CoinGecko slugs onto mint addresses before merging
+  private async resolveAddresses(results: Map<string, TokenData[]>): Promise<TokenData[][]> {
+    const coingeckoTokens = results.get(RateLimiterApi.COIN_GECKO);
+    if (!this.addressResolver || !coingeckoTokens) {
+      return Array.from(results.values());
+    }
+
+    const onChainTokens = Array.from(results.entries())
+      .filter(([provider]) => provider !== RateLimiterApi.COIN_GECKO)
+      .flatMap(([, tokens]) => tokens);
+    results.set(
+      RateLimiterApi.COIN_GECKO,
+      await this.addressResolver.resolve(coingeckoTokens, onChainTokens)
+    );
+    return Array.from(results.values());
+  }
+
+  // fetch one provider and keep its tokens as that source's latest snapshot
+  private async runProvider(provider: TokenSourceProvider): Promise<ProviderFetchResult> {
+    const startedAt = Date.now();
+    let result: ProviderFetchResult;
+
+    try {
+      const tokens = await this.fetchFromProvider(provider);
+      this.latest.set(provider.name, { tokens, fetchedAt: Date.now() });
+      result = {
+        provider: provider.name,
+        status: 'fulfilled',
+        tokenCount: tokens.length,
+        durationMs: Date.now() - startedAt,
+        fetchedAt: Date.now(),
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`Provider ${provider.name} failed: ${message}`);
+      result = {
+        provider: provider.name,
+        status: 'rejected',
+        tokenCount: 0,
+        durationMs: Date.now() - startedAt,
+        error: message,
+        fetchedAt: Date.now(),
+      };
+    }
+
+    this.lastResults.set(provider.name, result);
+    return result;
+  }
+
+  getProviders(): TokenSourceProvider[] {
+    return this.providers;
+  }
+
+  // refresh a single source, used by the per-source scheduler jobs
+  async refreshProvider(name: string): Promise<ProviderFetchResult> {
+    const provider = this.providers.find(p => p.name === name);
+    if (!provider) {
+      throw new Error(`Token source provider not enabled: ${name}`);
+    }
+    return this.runProvider(provider);
+  }
+
+  getLatestSnapshot(name: string): ProviderSnapshot | undefined {
+    return this.latest.get(name);
+  }
+
+  // merge the latest snapshot of every source held by this instance
+  async mergeLatest(): Promise<TokenData[]> {
+    return this.mergeSnapshots(this.latest);
+  }
+
+  // merge per-source snapshots, dropping sources that have gone stale
+  async mergeSnapshots(snapshots: Map<string, ProviderSnapshot>): Promise<TokenData[]> {
+    const cutoff = Date.now() - config.aggregation.providerSnapshotTtl;
+    const results = new Map<string, TokenData[]>();
+    snapshots.forEach(({ tokens, fetchedAt }, provider) => {
+      if (fetchedAt >= cutoff) results.set(provider, tokens);
+    });
+
+    const tokens = this.mergeTokens(await this.resolveAddresses(results));
+    logger.info(`Merged ${tokens.length} total tokens from ${results.size}/${this.providers.length} providers`);
+    return tokens;
+  }
+
+  // Targeted lookup of one address across the providers that support it. Returns null
+  // only when every provider answered without the token. Otherwise, unless another provider
+  // found it, throws RateLimitError if a provider was out of budget or Error if one failed.
+  async fetchToken(address: string): Promise<TokenData | null> {
+    const providers = this.providers.filter(provider => provider.fetchToken);
+    const client = (provider: TokenSourceProvider) => this.clients.get(provider.name)!;
+
+    const results = await Promise.allSettled(
+      providers.map(provider =>
+        this.fetchWithRetry(
+          provider.name,
+          async () => this.mapRecords(provider, await provider.fetchToken!(client(provider), address)),
+          provider.retry.attempts,
+          provider.retry.baseDelay,
+          1,
+          this.onDemandReserve(provider)
+        )
+      )
+    );
+
+    const found: TokenData[][] = [];
+    let rateLimited: RateLimitError | null = null;
+    let failed = false;
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        // pools can list the address as the quote side, so keep only the token itself
+        found.push(result.value.filter(token => token.token_address.toLowerCase() === address.toLowerCase()));
+      } else if (result.reason instanceof RateLimitError) {
+        rateLimited = result.reason;
+      } else {
+        failed = true;
+        logger.warn(`Token lookup for ${address} on ${providers[i].name} failed: ${result.reason?.message ?? result.reason}`);
+      }
+    });
+
+    const token = this.mergeTokens(found)[0] ?? null;
+    if (!token && rateLimited) throw rateLimited;
+    if (!token && failed) throw new Error(`Token lookup for ${address} failed on ${found.length ? 'a provider' : 'every provider'}`);
+    return token;
+  }
+
+  // Free-text search on the providers that support it; failed providers are skipped
+  // and reported, so an empty result can be told apart from an outage
+  async searchUpstream(query: string): Promise<{ tokens: TokenData[]; failed: string[] }> {
+    const providers = this.providers.filter(provider => provider.search);
+
+    const results = await Promise.allSettled(
+      providers.map(provider =>
+        this.fetchWithRetry(
+          provider.name,
+          async () => this.mapRecords(provider, await provider.search!(this.clients.get(provider.name)!, query)),
+          provider.retry.attempts,
+          provider.retry.baseDelay,
+          1,
+          this.onDemandReserve(provider)
+        )
+      )
+    );
+
+    const found: TokenData[][] = [];
+    const failed: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        found.push(result.value);
+      } else {
+        failed.push(providers[i].name);
+        logger.warn(`Upstream search for "${query}" on ${providers[i].name} failed: ${result.reason?.message ?? result.reason}`);
+      }
+    });
+    return { tokens: this.mergeTokens(found), failed };
+  }
+
+  // fan out over every enabled provider
+  async aggregate(): Promise<AggregationResult> {
+    const providers = await Promise.all(this.providers.map(p => this.runProvider(p)));
+    const tokens = await this.mergeLatest();
+    return { tokens, providers };
+  }
+
   // aggregrate
   async getAllTokens(): Promise<TokenData[]> {
     try {
-      const [dex, gecko] = await Promise.allSettled([
-        this.fetchFromDexScreener(),
-        this.fetchFromGeckoTerminal(),
-      ]);
-
-      const results = [
-        ...(dex.status === 'fulfilled' ? dex.value : []),
-        ...(gecko.status === 'fulfilled' ? gecko.value : []),
-      ];
-
-      const merged = this.mergeTokens([results]);
-      logger.info(`Merged ${merged.length} total tokens`);
-      return merged;
+      const { tokens } = await this.aggregate();
+      return tokens;
     } catch (err) {
       logger.error('Error aggregating tokens:', err);
       throw err;
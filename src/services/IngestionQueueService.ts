@@ -0,0 +1,234 @@
+import Queue, { Job, JobOptions } from 'bull';
+import { Cluster, Redis } from 'ioredis';
+import { randomBytes } from 'crypto';
+import { DeadLetterEntry, IngestionStage, ProviderSnapshot, QueueStatus, TokenData } from '../types';
+import { CacheService } from './CacheService';
+import { createQueueConnection, queuePrefix } from '../cache';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+// Stage implementations are supplied by the app so the queue only owns sequencing
+export interface IngestionHandlers {
+  fetch(provider: string): Promise<TokenData[]>;
+  merge(snapshots: Map<string, ProviderSnapshot>): Promise<TokenData[]>;
+  persist(tokens: TokenData[]): Promise<void>;
+  broadcast(tokens: TokenData[]): Promise<void>;
+  evaluateAlerts(tokens: TokenData[]): Promise<void>;
+}
+
+interface StageJob {
+  provider?: string;
+  batchId?: string;
+}
+
+// what a persist job resolves with; every instance sees it through `global:completed`
+interface PersistResult {
+  batchId: string;
+  superseded?: boolean; // a newer batch was already persisted
+}
+
+export type QueueFactory = <T>(name: string) => Queue.Queue<T>;
+
+const STAGES: IngestionStage[] = ['fetch', 'merge', 'persist', 'alerts'];
+const LATEST_BATCH_KEY = 'ingest:latest-batch';
+
+// batch ids start with the merge time
+const mergedAt = (batchId: string): number => parseInt(batchId, 10) || 0;
+
+// One command connection and one subscriber shared by every queue; Bull needs a
+// dedicated connection per blocking worker
+const bullQueueFactory = (): QueueFactory => {
+  let client: Redis | Cluster | null = null;
+  let subscriber: Redis | Cluster | null = null;
+  const createClient = (type: 'client' | 'subscriber' | 'bclient') => {
+    if (type === 'client') return client ??= createQueueConnection(false);
+    if (type === 'subscriber') return subscriber ??= createQueueConnection(true);
+    return createQueueConnection(true);
+  };
+  return <T>(name: string) => new Queue<T>(name, { prefix: queuePrefix(config.queue.prefix), createClient });
+};
+
+export class IngestionQueueService {
+  private cacheService: CacheService;
+  private handlers: IngestionHandlers;
+  private queues: Record<IngestionStage, Queue.Queue<StageJob>>;
+  private deadLetter: Queue.Queue<DeadLetterEntry>;
+  private started = false;
+  private lastBroadcast = 0;
+
+  constructor(cacheService: CacheService, handlers: IngestionHandlers, createQueue: QueueFactory = bullQueueFactory()) {
+    this.cacheService = cacheService;
+    this.handlers = handlers;
+
+    this.queues = STAGES.reduce((acc, stage) => {
+      acc[stage] = createQueue<StageJob>(`ingest:${stage}`);
+      return acc;
+    }, {} as Record<IngestionStage, Queue.Queue<StageJob>>);
+    this.deadLetter = createQueue<DeadLetterEntry>('ingest:dead-letter');
+  }
+
+  private jobOptions(): JobOptions {
+    return {
+      attempts: config.queue.attempts,
+      backoff: { type: 'exponential', delay: config.queue.backoffDelay },
+      removeOnComplete: true,
+      removeOnFail: 100,
+    };
+  }
+
+  private sourceKey(provider: string): string {
+    return `ingest:source:${provider}`;
+  }
+
+  // workers on any instance may pick up the merge, so source snapshots go through Redis
+  private async loadSnapshots(): Promise<Map<string, ProviderSnapshot>> {
+    const snapshots = new Map<string, ProviderSnapshot>();
+    for (const provider of config.aggregation.providers) {
+      const snapshot = await this.cacheService.getKey<ProviderSnapshot>(this.sourceKey(provider));
+      if (snapshot) snapshots.set(provider, snapshot);
+    }
+    return snapshots;
+  }
+
+  private batchKey(batchId: string): string {
+    return `ingest:batch:${batchId}`;
+  }
+
+  // merged snapshots are stored once and referenced by id so later stages can be replayed
+  private async loadBatch(batchId: string): Promise<TokenData[]> {
+    const tokens = await this.cacheService.getKey<TokenData[]>(this.batchKey(batchId));
+    if (!tokens) {
+      throw new Error(`Ingestion batch ${batchId} has expired`);
+    }
+    return tokens;
+  }
+
+  private async process(stage: IngestionStage, job: Job<StageJob>): Promise<PersistResult | void> {
+    const { provider, batchId } = job.data;
+
+    switch (stage) {
+      case 'fetch': {
+        const snapshot: ProviderSnapshot = { tokens: await this.handlers.fetch(provider!), fetchedAt: Date.now() };
+        await this.cacheService.setKey(
+          this.sourceKey(provider!),
+          snapshot,
+          Math.ceil(config.aggregation.providerSnapshotTtl / 1000)
+        );
+        await this.queues.merge.add({ provider }, this.jobOptions());
+        break;
+      }
+
+      case 'merge': {
+        const tokens = await this.handlers.merge(await this.loadSnapshots());
+        const id = `${Date.now()}-${randomBytes(3).toString('hex')}`;
+        await this.cacheService.setKey(this.batchKey(id), tokens, config.queue.batchTtl);
+        await this.queues.persist.add({ batchId: id }, this.jobOptions());
+        break;
+      }
+
+      case 'persist': {
+        // merges on different instances can finish out of order; never overwrite a newer batch
+        const latest = await this.cacheService.getKey<number>(LATEST_BATCH_KEY);
+        if (latest && latest > mergedAt(batchId!)) {
+          logger.debug(`Ingestion batch ${batchId} superseded by a newer merge, skipping`);
+          return { batchId: batchId!, superseded: true };
+        }
+        await this.handlers.persist(await this.loadBatch(batchId!));
+        await this.cacheService.setKey(LATEST_BATCH_KEY, mergedAt(batchId!), config.queue.batchTtl);
+        await this.queues.alerts.add({ batchId }, this.jobOptions());
+        return { batchId: batchId! };
+      }
+
+      case 'alerts':
+        await this.handlers.evaluateAlerts(await this.loadBatch(batchId!));
+        break;
+    }
+  }
+
+  // Sockets, seq numbers and token versions live in each instance, so every instance
+  // broadcasts each persisted batch to its own clients, whichever worker persisted it
+  private async broadcastBatch(result: PersistResult | string): Promise<void> {
+    const { batchId, superseded } = typeof result === 'string' ? JSON.parse(result) as PersistResult : result;
+    if (superseded || mergedAt(batchId) < this.lastBroadcast) return;
+    this.lastBroadcast = mergedAt(batchId);
+
+    try {
+      await this.handlers.broadcast(await this.loadBatch(batchId));
+    } catch (error) {
+      logger.error(`Broadcast of ingestion batch ${batchId} failed:`, error);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.queues.persist.on('global:completed', (jobId: string, result: PersistResult | string) => {
+      this.broadcastBatch(result);
+    });
+
+    for (const stage of STAGES) {
+      const queue = this.queues[stage];
+      queue.process(config.queue.concurrency[stage], (job: Job<StageJob>) => this.process(stage, job));
+
+      queue.on('error', (error: Error) => logger.error(`Ingestion ${stage} queue error: ${error.message}`));
+
+      queue.on('failed', async (job: Job<StageJob>, error: Error) => {
+        const attempts = job.opts.attempts ?? 1;
+        if (job.attemptsMade < attempts) {
+          logger.warn(`Ingestion ${stage} job ${job.id} failed (attempt ${job.attemptsMade}/${attempts}): ${error.message}`);
+          return;
+        }
+
+        logger.error(`Ingestion ${stage} job ${job.id} exhausted retries, moving to dead letter: ${error.message}`);
+        await this.deadLetter.add({
+          stage,
+          data: job.data,
+          error: error.message,
+          attemptsMade: job.attemptsMade,
+          failedAt: Date.now(),
+        }, { removeOnComplete: true });
+      });
+    }
+
+    logger.info('Ingestion queues started');
+  }
+
+  async enqueueFetch(provider: string): Promise<void> {
+    await this.queues.fetch.add({ provider }, this.jobOptions());
+  }
+
+  async getStatus(): Promise<QueueStatus> {
+    const stages = await Promise.all(
+      STAGES.map(async (stage) => ({ stage, ...(await this.queues[stage].getJobCounts()) }))
+    );
+    const deadLetter = await this.deadLetter.getWaitingCount();
+    return { stages, deadLetter };
+  }
+
+  async getDeadLetters(limit: number = 50): Promise<DeadLetterEntry[]> {
+    const jobs = await this.deadLetter.getWaiting(0, limit - 1);
+    return jobs.map(job => job.data);
+  }
+
+  // push dead-lettered jobs back onto their stage queue with a fresh retry budget
+  async replayDeadLetters(limit: number = 50): Promise<number> {
+    const jobs = await this.deadLetter.getWaiting(0, limit - 1);
+
+    for (const job of jobs) {
+      const { stage, data } = job.data;
+      await this.queues[stage].add(data, this.jobOptions());
+      await job.remove();
+    }
+
+    if (jobs.length > 0) {
+      logger.info(`Replayed ${jobs.length} dead-lettered ingestion jobs`);
+    }
+    return jobs.length;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...STAGES.map(stage => this.queues[stage].close()), this.deadLetter.close()]);
+    this.started = false;
+  }
+}
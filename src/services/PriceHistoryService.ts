@@ -0,0 +1,155 @@
+import { Candle, CandleInterval, ChangeWindow, PriceSample, TokenData } from '../types';
+import { CacheService } from './CacheService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export const CHANGE_WINDOWS: Record<ChangeWindow, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+const historyKey = (address: string) => `history:${address.toLowerCase()}`;
+const rollupKey = (address: string) => `history:rollup:${address.toLowerCase()}`;
+
+interface HistoryTier {
+  key: (address: string) => string;
+  interval: number; // seconds per sample bucket
+  retention: number; // seconds
+}
+
+export class PriceHistoryService {
+  private cacheService: CacheService;
+  // finest first: recent samples at full resolution, then the longer, coarser rollup
+  private tiers: HistoryTier[];
+
+  constructor(cacheService: CacheService) {
+    this.cacheService = cacheService;
+    this.tiers = [
+      { key: historyKey, interval: config.history.sampleInterval, retention: config.history.retention },
+      { key: rollupKey, interval: config.history.rollupInterval, retention: config.history.rollupRetention },
+    ];
+  }
+
+  // the finest tier still holding samples from `since`
+  private tierFor(since: number, now: number): HistoryTier {
+    return this.tiers.find(tier => since > now - tier.retention * 1000) ?? this.tiers[this.tiers.length - 1];
+  }
+
+  // Append one sample per token to the current bucket of each tier and trim past its retention;
+  // a token's history expires entirely once it goes unsampled for a tier's whole retention window
+  async recordSnapshot(tokens: TokenData[], now: number = Date.now()): Promise<void> {
+    const sampled = tokens.filter(token => token.price > 0);
+
+    await Promise.all(this.tiers.map((tier) => {
+      const bucketMs = tier.interval * 1000;
+      const t = Math.floor(now / bucketMs) * bucketMs;
+      const entries = sampled.map((token) => {
+        const sample: PriceSample = {
+          t,
+          p: token.price,
+          v: token.volume24h,
+          l: token.liquidity,
+          m: token.marketCap,
+        };
+        return { key: tier.key(token.token_address), score: t, value: sample };
+      });
+      return this.cacheService.addToSortedSets(entries, now - tier.retention * 1000, tier.retention);
+    }));
+    logger.debug(`Recorded ${sampled.length} history samples`);
+  }
+
+  // Attach % price change per window, measured against the sample closest to (at or
+  // before) each window start. Windows without a nearby sample are left out.
+  async withPriceChanges(tokens: TokenData[], now: number = Date.now()): Promise<TokenData[]> {
+    const windows = (Object.entries(CHANGE_WINDOWS) as Array<[ChangeWindow, number]>)
+      .map(([window, size]) => ({ window, size, tier: this.tierFor(now - size, now) }));
+    // one lookup per token and tier, covering every window read from that tier
+    const lookups = tokens.flatMap((token, tokenIndex) => this.tiers
+      .map(tier => ({ tokenIndex, tier, windows: windows.filter(window => window.tier === tier) }))
+      .filter(lookup => lookup.windows.length > 0));
+    const samples = await this.cacheService.getLatestAtOrBefore<PriceSample>(lookups.map(lookup => ({
+      key: lookup.tier.key(tokens[lookup.tokenIndex].token_address),
+      scores: lookup.windows.map(({ size }) => now - size),
+    })));
+
+    const priceChanges = tokens.map((): Partial<Record<ChangeWindow, number>> => ({}));
+    lookups.forEach(({ tokenIndex, tier, windows }, lookupIndex) => {
+      const token = tokens[tokenIndex];
+      windows.forEach(({ window, size }, windowIndex) => {
+        const sample = samples[lookupIndex][windowIndex];
+        const tolerance = Math.max(size * 0.1, tier.interval * 2000);
+        if (!sample || sample.p <= 0 || sample.t < now - size - tolerance || token.price <= 0) return;
+        priceChanges[tokenIndex][window] = ((token.price - sample.p) / sample.p) * 100;
+      });
+    });
+
+    return tokens.map((token, tokenIndex) => ({ ...token, priceChanges: priceChanges[tokenIndex] }));
+  }
+
+  // from the finest tier that still covers `from`
+  async getSamples(address: string, from: number, to: number = Date.now()): Promise<PriceSample[]> {
+    return this.readSamples(this.tierFor(from, Date.now()), address, from, to);
+  }
+
+  private async readSamples(tier: HistoryTier, address: string, from: number, to: number): Promise<PriceSample[]> {
+    return this.cacheService.getSortedSetRange<PriceSample>(tier.key(address), from, to);
+  }
+
+  // OHLCV from stored samples. Upstreams only report rolling 24h volume, so candle
+  // volume is the sum of increases in that rolling figure within the bucket.
+  // Ranges reaching past the full-resolution retention are built from the rollup.
+  async getCandles(address: string, interval: CandleInterval, from?: number, to: number = Date.now()): Promise<Candle[]> {
+    const size = CANDLE_INTERVALS[interval];
+    const start = from ?? to - size * config.history.maxCandles;
+    const tier = this.tierFor(start, Date.now());
+    const samples = await this.readSamples(tier, address, start - tier.interval * 1000, to);
+
+    const candles: Candle[] = [];
+    let previous: PriceSample | null = null;
+
+    for (const sample of samples) {
+      const volumeDelta = previous ? Math.max(0, sample.v - previous.v) : 0;
+      previous = sample;
+      if (sample.t < start) continue; // only used as the volume baseline
+
+      const time = Math.floor(sample.t / size) * size;
+      const current = candles[candles.length - 1];
+
+      if (!current || current.time !== time) {
+        candles.push({
+          time,
+          open: sample.p,
+          high: sample.p,
+          low: sample.p,
+          close: sample.p,
+          volume: volumeDelta,
+          liquidity: sample.l,
+          market_cap: sample.m,
+          samples: 1,
+        });
+        continue;
+      }
+
+      current.high = Math.max(current.high, sample.p);
+      current.low = Math.min(current.low, sample.p);
+      current.close = sample.p;
+      current.volume += volumeDelta;
+      current.liquidity = sample.l;
+      current.market_cap = sample.m;
+      current.samples++;
+    }
+
+    return candles.slice(-config.history.maxCandles);
+  }
+}
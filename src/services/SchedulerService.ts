@@ -0,0 +1,157 @@
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { JobStatus, SchedulerStatus } from '../types';
+import { CacheService } from './CacheService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+// leader: only the instance holding the lock runs it; follower: only the others do
+type JobRole = 'leader' | 'follower' | 'any';
+
+interface ScheduledJob {
+  run: () => Promise<void>;
+  role: JobRole;
+  status: JobStatus;
+  timer: NodeJS.Timeout | null;
+  startTimer: NodeJS.Timeout | null; // first run, shortly after start()
+}
+
+export class SchedulerService {
+  private cacheService: CacheService;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  private isLeader = false;
+  private started = false;
+  private lockTimer: NodeJS.Timeout | null = null;
+
+  constructor(cacheService: CacheService) {
+    this.cacheService = cacheService;
+  }
+
+  addJob(name: string, interval: number, run: () => Promise<void>, role: JobRole = 'leader'): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job already scheduled: ${name}`);
+    }
+
+    this.jobs.set(name, {
+      run,
+      role,
+      timer: null,
+      startTimer: null,
+      status: {
+        name,
+        interval,
+        running: false,
+        runCount: 0,
+        lastRunAt: null,
+        lastDurationMs: null,
+        lastOutcome: null,
+        nextRunAt: null,
+      },
+    });
+  }
+
+  private shouldRun(job: ScheduledJob): boolean {
+    if (job.role === 'any') return true;
+    return job.role === 'leader' ? this.isLeader : !this.isLeader;
+  }
+
+  private async tick(job: ScheduledJob): Promise<void> {
+    const { status } = job;
+    if (!this.started) return;
+    status.nextRunAt = Date.now() + status.interval;
+
+    if (!this.shouldRun(job)) return;
+
+    // a slow run must not stack with the next tick
+    if (status.running) {
+      status.lastOutcome = 'skipped_overlap';
+      logger.warn(`Job ${status.name} still running, skipping this tick`);
+      return;
+    }
+
+    const startedAt = Date.now();
+    status.running = true;
+    status.lastRunAt = startedAt;
+
+    try {
+      await job.run();
+      status.lastOutcome = 'success';
+      status.lastError = undefined;
+    } catch (error) {
+      status.lastOutcome = 'failure';
+      status.lastError = error instanceof Error ? error.message : String(error);
+      logger.error(`Job ${status.name} failed:`, error);
+    } finally {
+      status.running = false;
+      status.runCount++;
+      status.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+
+  private async electLeader(): Promise<void> {
+    const { lockKey, lockTtl } = config.scheduler;
+    const wasLeader = this.isLeader;
+    this.isLeader = await this.cacheService.acquireLock(lockKey, this.instanceId, lockTtl);
+
+    if (this.isLeader !== wasLeader) {
+      logger.info(`Scheduler ${this.instanceId} is now ${this.isLeader ? 'leader' : 'follower'}`);
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    if (config.scheduler.leaderLock) {
+      await this.electLeader();
+      this.lockTimer = setInterval(() => this.electLeader(), config.scheduler.lockTtl / 3);
+    } else {
+      this.isLeader = true;
+    }
+
+    this.jobs.forEach((job) => {
+      // Initial run shortly after start, then periodic
+      job.status.nextRunAt = Date.now() + 1000;
+      job.startTimer = setTimeout(() => {
+        job.startTimer = null;
+        this.tick(job);
+      }, 1000);
+      job.timer = setInterval(() => this.tick(job), job.status.interval);
+    });
+
+    logger.info(`Scheduler started with ${this.jobs.size} jobs`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+
+    this.jobs.forEach((job) => {
+      if (job.startTimer) clearTimeout(job.startTimer);
+      if (job.timer) clearInterval(job.timer);
+      job.startTimer = null;
+      job.timer = null;
+      job.status.nextRunAt = null;
+    });
+
+    if (this.lockTimer) {
+      clearInterval(this.lockTimer);
+      this.lockTimer = null;
+    }
+
+    if (this.isLeader && config.scheduler.leaderLock) {
+      await this.cacheService.releaseLock(config.scheduler.lockKey, this.instanceId);
+    }
+    this.isLeader = false;
+  }
+
+  getStatus(): SchedulerStatus {
+    return {
+      instanceId: this.instanceId,
+      role: !config.scheduler.leaderLock ? 'standalone' : this.isLeader ? 'leader' : 'follower',
+      started: this.started,
+      jobs: Array.from(this.jobs.values()).map(job => ({ ...job.status })),
+    };
+  }
+}
@@ -1,15 +1,60 @@
-import { Server as SocketIOServer } from 'socket.io';
-import { TokenData, WebSocketMessage } from '../types';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { FeedUpdate, FilterOptions, SignificantChange, SubscriptionAck, TokenData, TokenDelta, TokenSnapshot, TokenUpdate, WebSocketMessage } from '../types';
 import { CacheService } from './CacheService';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { diffFeedRanking, diffSnapshots, isEmptyDelta } from '../utils/services/WebSocketUtils';
+import { applyFilters, parseFilterOptions } from '../utils/services/TokenFilterUtils';
+import { tokenFilterSchema } from '../schemas';
+import { ownerForApiKey } from '../utils/auth';
+import { FieldProjection, parseFields, project, projectionKey, withoutOptInFields } from '../utils/services/ProjectionUtils';
+
+interface LiveFeed {
+  filters: FilterOptions;
+  fields: FieldProjection;
+  ranking: string[]; // addresses currently in the view, in rank order
+}
+
+interface ConnectedClient {
+  id: string;
+  connectedAt: number;
+  subscribedTokens: Map<string, FieldProjection>; // address -> projection its updates are sent with
+  feeds: Map<string, LiveFeed>;
+  ownerId: string | null; // alert owner, set by identify
+}
+
+// Clients without token subscriptions get the full delta stream
+const FIREHOSE_ROOM = 'firehose';
+const tokenRoom = (address: string) => `token:${address}`;
+const ownerRoom = (ownerId: string) => `owner:${ownerId}`;
+
+// Events raised on one instance (change detection runs on a single worker) for sockets on
+// every instance. Each instance, the publisher included, emits what arrives to its own sockets.
+const EVENTS_CHANNEL = 'ws:events';
+
+interface RelayedEvent {
+  event: string;
+  room?: string; // every client when unset
+  message: WebSocketMessage;
+}
+
+type Ack = (message: WebSocketMessage) => void;
 
 export class WebSocketService {
   private io: SocketIOServer;
-  private connectedClients: Map<string, any> = new Map();
+  private cacheService: CacheService;
+  private connectedClients: Map<string, ConnectedClient> = new Map();
+  private snapshot: Map<string, TokenData> = new Map();
+  private tokenVersions: Map<string, number> = new Map();
+  private seq = 0;
 
   constructor(io: SocketIOServer, cacheService: CacheService) {
     this.io = io;
+    this.cacheService = cacheService;
     this.setupSocketHandlers();
+    this.cacheService.subscribe<RelayedEvent>(EVENTS_CHANNEL, ({ event, room, message }) => {
+      (room ? this.io.to(room) : this.io).emit(event, message);
+    }).catch((error) => logger.error('Error subscribing to relayed events:', error));
   }
 
   private setupSocketHandlers(): void {
@@ -18,23 +63,78 @@ export class WebSocketService {
       this.connectedClients.set(socket.id, {
         id: socket.id,
         connectedAt: Date.now(),
-        subscribedTokens: new Set()
+        subscribedTokens: new Map(),
+        feeds: new Map(),
+        ownerId: null
       });
+      socket.join(FIREHOSE_ROOM);
+
+      // baseline for applying deltas
+      socket.emit('token_snapshot', this.snapshotMessage('initial_data'));
 
-      socket.on('subscribe_tokens', (data: { tokens?: string[] } = {}) => {
+      // client saw a seq gap and needs a fresh baseline
+      socket.on('resync', () => {
+        logger.debug(`Client ${socket.id} requested resync at seq ${this.seq}`);
+        socket.emit('token_snapshot', this.snapshotMessage('snapshot'));
+      });
+
+      // ties the socket to the alert owner of an API key (sent here or in the handshake auth)
+      // so that owner's alerts reach it
+      socket.on('identify', (data: { api_key?: string } = {}, ack?: Ack) => {
         const client = this.connectedClients.get(socket.id);
-        if (client && data.tokens) {
-          data.tokens.forEach(token => client.subscribedTokens.add(token.toLowerCase()));
-          logger.info(`Client ${socket.id} subscribed to tokens: ${data.tokens.join(', ')}`);
+        const ownerId = ownerForApiKey(data.api_key ?? socket.handshake.auth?.api_key);
+        if (client && ownerId) {
+          if (client.ownerId && client.ownerId !== ownerId) socket.leave(ownerRoom(client.ownerId));
+          client.ownerId = ownerId;
+          socket.join(ownerRoom(ownerId));
+          logger.info(`Client ${socket.id} identified as ${ownerId}`);
         }
+        if (typeof ack === 'function') {
+          ack({
+            type: 'identify',
+            data: ownerId ? { identified: true } : { identified: false, error: 'A valid API key is required' },
+            timestamp: Date.now()
+          });
+        }
+      });
+
+      socket.on('subscribe_tokens', (data: { tokens?: string[]; fields?: string } = {}, ack?: Ack) => {
+        this.subscribe(socket, data.tokens || [], data.fields, ack).catch((error) =>
+          logger.error(`Error subscribing client ${socket.id}:`, error)
+        );
       });
 
-      socket.on('unsubscribe_tokens', (data: { tokens?: string[] } = {}) => {
+      socket.on('unsubscribe_tokens', (data: { tokens?: string[] } = {}, ack?: Ack) => {
         const client = this.connectedClients.get(socket.id);
         if (client && data.tokens) {
-          data.tokens.forEach(token => client.subscribedTokens.delete(token.toLowerCase()));
+          data.tokens.forEach(token => {
+            const address = token.toLowerCase();
+            client.subscribedTokens.delete(address);
+            socket.leave(tokenRoom(address));
+          });
+          if (client.subscribedTokens.size === 0) socket.join(FIREHOSE_ROOM);
           logger.info(`Client ${socket.id} unsubscribed from tokens: ${data.tokens.join(', ')}`);
         }
+        if (typeof ack === 'function') {
+          ack({
+            type: 'token_update',
+            data: { subscribed: Array.from(client?.subscribedTokens.keys() || []) },
+            timestamp: Date.now()
+          });
+        }
+      });
+
+      socket.on('subscribe_feed', (data: { feed_id?: string; filters?: Record<string, unknown>; fields?: string } = {}, ack?: Ack) => {
+        this.subscribeFeed(socket, data.feed_id || 'default', data.filters || {}, data.fields, ack).catch((error) =>
+          logger.error(`Error subscribing client ${socket.id} to feed:`, error)
+        );
+      });
+
+      socket.on('unsubscribe_feed', (data: { feed_id?: string } = {}) => {
+        const client = this.connectedClients.get(socket.id);
+        if (client?.feeds.delete(data.feed_id || 'default')) {
+          logger.info(`Client ${socket.id} left feed ${data.feed_id || 'default'}`);
+        }
       });
 
       socket.on('disconnect', () => {
@@ -44,101 +144,346 @@ export class WebSocketService {
     });
   }
 
+  // Join per-token rooms up to the client limit and reply with the current state of those tokens.
+  // The projection applies to the tokens named here; re-subscribing to a token replaces its projection.
+  private async subscribe(socket: Socket, tokens: string[], fieldSpec: string | undefined, ack?: Ack): Promise<void> {
+    const client = this.connectedClients.get(socket.id);
+    if (!client) return;
+
+    const limit = config.websocket.maxSubscriptionsPerClient;
+    const requested = Array.from(new Set(tokens.map(token => token.toLowerCase())));
+    const reply = (data: SubscriptionAck) => {
+      const message: WebSocketMessage = { type: 'initial_data', data, timestamp: Date.now() };
+      if (typeof ack === 'function') ack(message); else socket.emit('token_snapshot', message);
+    };
+
+    let fields: FieldProjection;
+    try {
+      fields = parseFields(fieldSpec);
+    } catch (error) {
+      reply({
+        subscribed: Array.from(client.subscribedTokens.keys()),
+        rejected: requested,
+        limit,
+        tokens: [],
+        versions: {},
+        error: error instanceof Error ? error.message : 'invalid fields',
+      });
+      return;
+    }
+
+    const accepted: string[] = [];
+    const rejected: string[] = [];
+
+    for (const address of requested) {
+      if (client.subscribedTokens.has(address) || client.subscribedTokens.size < limit) {
+        client.subscribedTokens.set(address, fields);
+        socket.join(tokenRoom(address));
+        accepted.push(address);
+      } else {
+        rejected.push(address);
+      }
+    }
+
+    if (client.subscribedTokens.size > 0) socket.leave(FIREHOSE_ROOM);
+    logger.info(`Client ${socket.id} subscribed to tokens: ${accepted.join(', ')}`);
+
+    const current = await this.currentTokens();
+    reply({
+      subscribed: Array.from(client.subscribedTokens.keys()),
+      rejected,
+      limit,
+      tokens: accepted
+        .map(address => current.get(address))
+        .filter((token): token is TokenData => !!token)
+        .map(token => project(token, fields)),
+      versions: Object.fromEntries(accepted.map(address => [address, this.tokenVersions.get(address) || 0])),
+    });
+  }
+
+  // Save a filtered view (same options as GET /api/tokens) and reply with its current contents
+  private async subscribeFeed(
+    socket: Socket,
+    feedId: string,
+    query: Record<string, unknown>,
+    fieldSpec: string | undefined,
+    ack?: Ack
+  ): Promise<void> {
+    const client = this.connectedClients.get(socket.id);
+    if (!client) return;
+
+    const reject = (error: string) => {
+      const message: WebSocketMessage = { type: 'feed_update', data: { feed_id: feedId, error }, timestamp: Date.now() };
+      if (typeof ack === 'function') ack(message); else socket.emit('feed_update', message);
+    };
+
+    if (!client.feeds.has(feedId) && client.feeds.size >= config.websocket.maxFeedsPerClient) {
+      reject(`Feed limit of ${config.websocket.maxFeedsPerClient} reached`);
+      return;
+    }
+
+    // same schema as GET /api/tokens, minus the cursor
+    const { value, error } = tokenFilterSchema.validate(query, { abortEarly: false });
+    if (error) {
+      reject(error.message);
+      return;
+    }
+
+    let fields: FieldProjection;
+    try {
+      fields = parseFields(fieldSpec);
+    } catch (error) {
+      reject(error instanceof Error ? error.message : 'invalid fields');
+      return;
+    }
+
+    const filters = parseFilterOptions(value);
+    const view = applyFilters(Array.from((await this.currentTokens()).values()), filters).slice(0, filters.limit);
+    client.feeds.set(feedId, { filters, fields, ranking: view.map(token => token.token_address.toLowerCase()) });
+    logger.info(`Client ${socket.id} subscribed to feed ${feedId}: ${JSON.stringify(filters)}`);
+
+    const message: WebSocketMessage = {
+      type: 'initial_data',
+      data: { feed_id: feedId, filters, tokens: view.map(token => project(token, fields)) },
+      timestamp: Date.now()
+    };
+    if (typeof ack === 'function') ack(message); else socket.emit('feed_update', message);
+  }
+
+  // re-evaluate every saved feed against the new snapshot
+  private emitFeedUpdates(tokens: TokenData[], delta: TokenDelta): void {
+    this.connectedClients.forEach((client, socketId) => {
+      client.feeds.forEach((feed, feedId) => {
+        const view = applyFilters(tokens, feed.filters).slice(0, feed.filters.limit);
+        const ranking = view.map(token => token.token_address.toLowerCase());
+        const { entries, exits, rank_changes } = diffFeedRanking(feed.ranking, ranking);
+        feed.ranking = ranking;
+
+        // entries already carry the whole token
+        const entered = new Set(entries.map(entry => entry.address));
+        const members = new Set(ranking.filter(address => !entered.has(address)));
+        const updated = Object.fromEntries(
+          Object.entries(delta.updated)
+            .filter(([address]) => members.has(address))
+            .map(([address, patch]) => [address, project(patch, feed.fields)])
+            .filter(([, patch]) => Object.keys(patch).length > 0)
+        );
+        if (!entries.length && !exits.length && !rank_changes.length && !Object.keys(updated).length) return;
+
+        const byAddress = new Map(view.map(token => [token.token_address.toLowerCase(), token]));
+        const update: FeedUpdate = {
+          feed_id: feedId,
+          entries: entries.map(entry => ({ ...entry, token: project(byAddress.get(entry.address)!, feed.fields) })),
+          exits,
+          rank_changes,
+          updated,
+        };
+        const message: WebSocketMessage = { type: 'feed_update', data: update, timestamp: Date.now() };
+        this.io.to(socketId).emit('feed_update', message);
+      });
+    });
+  }
+
+  // before the first refresh on this instance, fall back to the cached snapshot
+  private async currentTokens(): Promise<Map<string, TokenData>> {
+    if (this.snapshot.size > 0) return this.snapshot;
+    const cached = await this.cacheService.getTokens();
+    return new Map((cached || []).map(token => [token.token_address.toLowerCase(), token]));
+  }
+
+  private snapshotMessage(type: 'initial_data' | 'snapshot'): WebSocketMessage {
+    const data: TokenSnapshot = { seq: this.seq, tokens: Array.from(this.snapshot.values(), withoutOptInFields) };
+    return { type, data, timestamp: Date.now() };
+  }
+
+  // per-token patches for clients in that token's room
+  private emitToSubscribers(delta: TokenDelta): void {
+    const rooms = this.io.sockets.adapter.rooms;
+    type Change = Pick<TokenUpdate, 'patch' | 'token' | 'removed'>;
+    const changed: Array<[string, Change]> = [
+      ...Object.entries(delta.updated).map(([address, patch]): [string, Change] => [address, { patch }]),
+      ...delta.added.map((token): [string, Change] => [token.token_address.toLowerCase(), { token }]),
+      ...delta.removed.map((address): [string, Change] => [address, { removed: true }]),
+    ];
+
+    for (const [address, change] of changed) {
+      const version = (this.tokenVersions.get(address) || 0) + 1;
+      if (change.removed) {
+        this.tokenVersions.delete(address);
+      } else {
+        this.tokenVersions.set(address, version);
+      }
+
+      const members = rooms.get(tokenRoom(address));
+      if (!members) continue;
+
+      // one message per distinct projection among the room's members
+      for (const [socketIds, fields] of this.groupByProjection(address, members)) {
+        const projected: Change = {
+          patch: change.patch && project(change.patch, fields),
+          token: change.token && project(change.token, fields),
+          removed: change.removed,
+        };
+        // sent even when the patch projects to nothing so versions stay contiguous
+        const update: TokenUpdate = { address, version, prev_version: version - 1, ...projected };
+        const message: WebSocketMessage = { type: 'token_update', data: update, timestamp: Date.now() };
+        this.io.to(socketIds).emit('subscribed_token_update', message);
+      }
+    }
+  }
+
+  private groupByProjection(address: string, socketIds: Set<string>): Array<[string[], FieldProjection]> {
+    const groups = new Map<string, [string[], FieldProjection]>();
+    for (const socketId of socketIds) {
+      const fields = this.connectedClients.get(socketId)?.subscribedTokens.get(address) ?? null;
+      const key = projectionKey(fields);
+      const group = groups.get(key);
+      if (group) group[0].push(socketId); else groups.set(key, [[socketId], fields]);
+    }
+    return Array.from(groups.values());
+  }
+
+  // Emit only what changed since the previous snapshot
   public broadcastTokenUpdate(updatedTokens: TokenData[]): void {
+    const next = new Map(updatedTokens.map(token => [token.token_address.toLowerCase(), token]));
+    const changes = diffSnapshots(this.snapshot, next);
+    this.snapshot = next;
+
+    if (isEmptyDelta(changes)) {
+      logger.debug('No token changes to broadcast');
+      return;
+    }
+
+    const delta: TokenDelta = { seq: this.seq + 1, prev_seq: this.seq, ...changes };
+    this.seq = delta.seq;
+
+    const firehose: TokenDelta = {
+      ...delta,
+      updated: Object.fromEntries(Object.entries(delta.updated).map(([address, patch]) => [address, withoutOptInFields(patch)])),
+      added: delta.added.map(withoutOptInFields),
+    };
     const message: WebSocketMessage = {
-      type: 'batch_update',
-      data: updatedTokens,
+      type: 'token_delta',
+      data: firehose,
       timestamp: Date.now()
     };
 
-    this.io.emit('token_updates', message);
-    logger.debug(`Broadcasted update for ${updatedTokens.length} tokens`);
-  }
-
-// public broadcastPriceChange(token: TokenData, oldPrice: number): void {
-//   const changePercent = ((token.price - oldPrice) / oldPrice) * 100;
-  
-//   const message: WebSocketMessage = {
-//     type: 'price_update',
-//     data: {
-//       token_address: token.token_address,
-//       token_name: token.token_name,
-//       token_ticker: token.token_ticker,
-//       old_price: oldPrice,
-//       new_price: token.price,
-//       change_percent: changePercent,
-//       change_amount: token.price - oldPrice,
-//       direction: token.price > oldPrice ? 'up' : 'down'
-//     },
-//     timestamp: Date.now()
-//   };
-
-//   this.io.emit('price_alert', message);
-  
-//   // Send to specific subscribers
-//   this.connectedClients.forEach((client, socketId) => {
-//     if (client.subscribedTokens.has(token.token_address.toLowerCase())) {
-//       this.io.to(socketId).emit('subscribed_token_update', message);
-//     }
-//   });
-// }
-
-// public broadcastVolumeSpike(token: TokenData): void {
-//   const message: WebSocketMessage = {
-//     type: 'volume_spike',
-//     data: {
-//       token_address: token.token_address,
-//       token_name: token.token_name,
-//       token_ticker: token.token_ticker,
-//       volume24h: token.volume24h,
-//       price: token.price,
-//       marketCap: token.marketCap
-//     },
-//     timestamp: Date.now()
-//   };
-
-//   this.io.emit('volume_alert', message);
-// }
-
-// public broadcastMarketCapChange(token: TokenData, oldMarketCap: number): void {
-//   const changePercent = ((token.marketCap - oldMarketCap) / oldMarketCap) * 100;
-  
-//   const message: WebSocketMessage = {
-//     type: 'market_cap_update',
-//     data: {
-//       token_address: token.token_address,
-//       token_name: token.token_name,
-//       token_ticker: token.token_ticker,
-//       old_market_cap: oldMarketCap,
-//       new_market_cap: token.marketCap,
-//       change_percent: changePercent,
-//       rank: token.rank
-//     },
-//     timestamp: Date.now()
-//   };
-
-//   this.io.emit('market_cap_alert', message);
-// }
-
-// public broadcastLiquidityChange(token: TokenData, oldLiquidity: number): void {
-//   const changePercent = ((token.liquidity - oldLiquidity) / oldLiquidity) * 100;
-  
-//   const message: WebSocketMessage = {
-//     type: 'liquidity_update',
-//     data: {
-//       token_address: token.token_address,
-//       token_name: token.token_name,
-//       token_ticker: token.token_ticker,
-//       old_liquidity: oldLiquidity,
-//       new_liquidity: token.liquidity,
-//       change_percent: changePercent,
-//       dex: token.dex
-//     },
-//     timestamp: Date.now()
-//   };
-
-//   this.io.emit('liquidity_alert', message);
-// }
+    this.io.to(FIREHOSE_ROOM).emit('token_updates', message);
+    this.emitToSubscribers(delta);
+    this.emitFeedUpdates(updatedTokens, delta);
+    logger.debug(
+      `Broadcasted delta seq ${delta.seq}: ${Object.keys(delta.updated).length} updated, ` +
+      `${delta.added.length} added, ${delta.removed.length} removed`
+    );
+  }
+
+  // fire-and-forget: a lost event is logged rather than failing the caller's refresh
+  private async relay(event: RelayedEvent): Promise<void> {
+    try {
+      await this.cacheService.publish(EVENTS_CHANNEL, event);
+    } catch (error) {
+      logger.error(`Error relaying ${event.event}:`, error);
+    }
+  }
+
+  // the owner's sockets may be connected to any instance
+  public async sendToOwner(ownerId: string, message: WebSocketMessage): Promise<void> {
+    await this.relay({ event: 'alert_triggered', room: ownerRoom(ownerId), message });
+  }
+
+  // change events go to every client, on their own event names only
+  public async broadcastSignificantChange(change: SignificantChange): Promise<void> {
+    switch (change.metric) {
+      case 'price':
+        return this.broadcastPriceChange(change.token, change.previous);
+      case 'volume':
+        return this.broadcastVolumeSpike(change.token, change.previous);
+      case 'market_cap':
+        return this.broadcastMarketCapChange(change.token, change.previous);
+      case 'liquidity':
+        return this.broadcastLiquidityChange(change.token, change.previous);
+    }
+  }
+
+  public async broadcastPriceChange(token: TokenData, oldPrice: number): Promise<void> {
+    const changePercent = ((token.price - oldPrice) / oldPrice) * 100;
+
+    const message: WebSocketMessage = {
+      type: 'price_update',
+      data: {
+        token_address: token.token_address,
+        token_name: token.token_name,
+        token_ticker: token.token_ticker,
+        old_price: oldPrice,
+        new_price: token.price,
+        change_percent: changePercent,
+        change_amount: token.price - oldPrice,
+        direction: token.price > oldPrice ? 'up' : 'down'
+      },
+      timestamp: Date.now()
+    };
+
+    await this.relay({ event: 'price_alert', message });
+  }
+
+  public async broadcastVolumeSpike(token: TokenData, oldVolume: number): Promise<void> {
+    const message: WebSocketMessage = {
+      type: 'volume_spike',
+      data: {
+        token_address: token.token_address,
+        token_name: token.token_name,
+        token_ticker: token.token_ticker,
+        old_volume24h: oldVolume,
+        volume24h: token.volume24h,
+        multiple: token.volume24h / oldVolume,
+        price: token.price,
+        marketCap: token.marketCap
+      },
+      timestamp: Date.now()
+    };
+
+    await this.relay({ event: 'volume_alert', message });
+  }
+
+  public async broadcastMarketCapChange(token: TokenData, oldMarketCap: number): Promise<void> {
+    const changePercent = ((token.marketCap - oldMarketCap) / oldMarketCap) * 100;
+
+    const message: WebSocketMessage = {
+      type: 'market_cap_update',
+      data: {
+        token_address: token.token_address,
+        token_name: token.token_name,
+        token_ticker: token.token_ticker,
+        old_market_cap: oldMarketCap,
+        new_market_cap: token.marketCap,
+        change_percent: changePercent,
+        rank: token.rank
+      },
+      timestamp: Date.now()
+    };
+
+    await this.relay({ event: 'market_cap_alert', message });
+  }
+
+  public async broadcastLiquidityChange(token: TokenData, oldLiquidity: number): Promise<void> {
+    const changePercent = ((token.liquidity - oldLiquidity) / oldLiquidity) * 100;
+
+    const message: WebSocketMessage = {
+      type: 'liquidity_update',
+      data: {
+        token_address: token.token_address,
+        token_name: token.token_name,
+        token_ticker: token.token_ticker,
+        old_liquidity: oldLiquidity,
+        new_liquidity: token.liquidity,
+        change_percent: changePercent,
+        dex: token.dex
+      },
+      timestamp: Date.now()
+    };
+
+    await this.relay({ event: 'liquidity_alert', message });
+  }
 
   public getConnectedClientsCount(): number {
     return this.connectedClients.size;
@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import Queue from 'bull';
+import { QueueFactory } from '../../services/IngestionQueueService';
+
+// In-process stand-in for the slice of Bull that IngestionQueueService uses. Bull's Lua
+// scripts need a real Redis, so tests swap the queues while keeping the rest of the
+// pipeline (snapshots, batches, locks) on MemoryCacheBackend. Queues created from
+// factories of the same broker behave like one Redis shared by several instances.
+
+interface FakeJob {
+  id: string;
+  data: unknown;
+  opts: { attempts?: number };
+  attemptsMade: number;
+  remove(): Promise<void>;
+}
+
+type Handler = (job: FakeJob) => Promise<unknown>;
+
+interface QueueState {
+  waiting: FakeJob[];
+  workers: Array<{ queue: InProcessQueue; handler: Handler }>;
+  queues: Set<InProcessQueue>;
+  completed: number;
+  failed: number;
+  draining: boolean;
+  nextWorker: number;
+}
+
+export class QueueBroker {
+  private states: Map<string, QueueState> = new Map();
+  private nextId = 1;
+
+  state(name: string): QueueState {
+    let state = this.states.get(name);
+    if (!state) {
+      state = { waiting: [], workers: [], queues: new Set(), completed: 0, failed: 0, draining: false, nextWorker: 0 };
+      this.states.set(name, state);
+    }
+    return state;
+  }
+
+  jobId(): string {
+    return String(this.nextId++);
+  }
+
+  factory(): QueueFactory {
+    return <T>(name: string) => new InProcessQueue(name, this) as unknown as Queue.Queue<T>;
+  }
+
+  // resolves once no queue has waiting jobs or a job in flight
+  async idle(): Promise<void> {
+    for (let i = 0; i < 100; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+      const busy = Array.from(this.states.values()).some(state => state.draining || (state.waiting.length > 0 && state.workers.length > 0));
+      if (!busy) return;
+    }
+    throw new Error('queues did not drain');
+  }
+}
+
+class InProcessQueue extends EventEmitter {
+  private state: QueueState;
+
+  constructor(readonly name: string, private broker: QueueBroker) {
+    super();
+    this.state = broker.state(name);
+    this.state.queues.add(this);
+  }
+
+  async add(data: unknown, opts: { attempts?: number } = {}): Promise<FakeJob> {
+    const job: FakeJob = {
+      id: this.broker.jobId(),
+      data,
+      opts,
+      attemptsMade: 0,
+      remove: async () => {
+        this.state.waiting = this.state.waiting.filter(waiting => waiting !== job);
+      },
+    };
+    this.state.waiting.push(job);
+    setImmediate(() => this.drain());
+    return job;
+  }
+
+  process(concurrency: number, handler: Handler): void {
+    this.state.workers.push({ queue: this, handler });
+    setImmediate(() => this.drain());
+  }
+
+  // one job at a time per queue, handed to the registered workers in turn
+  private async drain(): Promise<void> {
+    const state = this.state;
+    if (state.draining || state.workers.length === 0) return;
+    state.draining = true;
+
+    for (let job = state.waiting.shift(); job; job = state.waiting.shift()) {
+      const worker = state.workers[state.nextWorker++ % state.workers.length];
+      try {
+        const result = await worker.handler(job);
+        state.completed++;
+        state.queues.forEach(queue => queue.emit('global:completed', job!.id, JSON.stringify(result ?? null)));
+      } catch (error) {
+        job.attemptsMade++;
+        state.failed++;
+        worker.queue.emit('failed', job, error);
+        if (job.attemptsMade < (job.opts.attempts ?? 1)) state.waiting.push(job);
+      }
+    }
+    state.draining = false;
+  }
+
+  async getJobCounts() {
+    return { waiting: this.state.waiting.length, active: 0, completed: this.state.completed, failed: this.state.failed, delayed: 0 };
+  }
+
+  async getWaiting(start: number, end: number): Promise<FakeJob[]> {
+    return this.state.waiting.slice(start, end + 1);
+  }
+
+  async getWaitingCount(): Promise<number> {
+    return this.state.waiting.length;
+  }
+
+  async close(): Promise<void> {
+    this.state.workers = this.state.workers.filter(worker => worker.queue !== this);
+    this.state.queues.delete(this);
+  }
+}
@@ -0,0 +1,37 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import fs from 'fs';
+import path from 'path';
+
+export type MockRoute = { status?: number; body: unknown } | ((req: IncomingMessage) => { status?: number; body: unknown });
+
+export interface MockHttpServer {
+  url: string;
+  requests: string[]; // paths (with query) in arrival order
+  close(): Promise<void>;
+}
+
+export const loadFixture = (name: string): unknown =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf8'));
+
+// Local upstream stand-in: exact path + query matches, 404 for anything else
+export async function startMockHttpServer(routes: Record<string, MockRoute>): Promise<MockHttpServer> {
+  const requests: string[] = [];
+  const server: Server = createServer((req, res) => {
+    const url = req.url || '/';
+    requests.push(url);
+    const route = routes[url];
+    const { status = 200, body } = typeof route === 'function' ? route(req) : route ?? { status: 404, body: { error: 'not found' } };
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
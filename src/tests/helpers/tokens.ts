@@ -0,0 +1,11 @@
+import { TokenData } from '../../types';
+
+// Token fixture: identity derived from the address plus the fields a test cares about.
+// Metrics a test doesn't set stay undefined, i.e. unreported.
+export const makeToken = (address: string, fields: Partial<TokenData> = {}): TokenData => ({
+  token_address: address,
+  token_name: address,
+  token_ticker: address.toUpperCase(),
+  price: 1,
+  ...fields,
+} as TokenData);
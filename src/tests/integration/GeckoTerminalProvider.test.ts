@@ -0,0 +1,92 @@
+import axios from 'axios';
+import { GeckoTerminalProvider } from '../../providers/GeckoTerminalProvider';
+import { ProviderRegistry } from '../../providers';
+import { DataAggregatorService } from '../../services/DataAggregatorService';
+import { mapDexScreenerToken } from '../../utils/services/DataAggregratorUtils';
+import { loadFixture, MockHttpServer, startMockHttpServer } from '../helpers/mockHttpServer';
+
+// mints are case-sensitive base58 and must come back exactly as the upstream sent them
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const PEPSOL = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+describe('GeckoTerminalProvider', () => {
+  let server: MockHttpServer;
+
+  beforeAll(async () => {
+    server = await startMockHttpServer({
+      '/networks/solana/trending_pools?include=base_token': { body: loadFixture('geckoterminal/trending_pools.json') },
+      '/networks/solana/new_pools?include=base_token': { body: loadFixture('geckoterminal/new_pools.json') },
+      [`/networks/solana/tokens/${PEPSOL}/pools?include=base_token`]: { body: loadFixture('geckoterminal/token_pools.json') },
+    });
+  });
+
+  afterAll(() => server.close());
+  beforeEach(() => server.requests.splice(0));
+
+  it('maps trending and new pools to mint addresses with summed pool metrics', async () => {
+    const provider = new GeckoTerminalProvider();
+    const tokens = provider.map(await provider.fetch(axios.create({ baseURL: server.url })));
+
+    // the pool whose base token is missing from `included` is dropped
+    expect(tokens.map(t => t.token_address).sort()).toEqual([PEPSOL, BONK].sort());
+
+    const bonk = tokens.find(t => t.token_address === BONK)!;
+    expect(bonk).toMatchObject({
+      token_ticker: 'BONK',
+      dex: 'raydium', // deepest pool is primary
+      liquidity: 6_000_000,
+      volume24h: 2_800_000,
+      transaction_count: 7350,
+      transactionCounts: { m5: 24, h1: 315, h6: 1950, h24: 7350 },
+      marketCap: 1_710_000_000,
+      pairCreatedAt: '2023-01-02T17:30:11Z',
+      source: ['geckoterminal'],
+    });
+    expect(bonk.pairs!.map(pair => pair.dex)).toEqual(['raydium', 'orca']);
+    expect(bonk.price).toBeCloseTo((0.00002531 * 4_200_000 + 0.00002549 * 1_800_000) / 6_000_000, 12);
+
+    const pepsol = tokens.find(t => t.token_address === PEPSOL)!;
+    expect(pepsol).toMatchObject({ marketCap: 412_000, liquidity: 31_000, dex: 'pump-fun', image: '' });
+  });
+
+  it('maps the pools trading a single token, quote-side pools included', async () => {
+    const provider = new GeckoTerminalProvider();
+    const tokens = provider.map(await provider.fetchToken(axios.create({ baseURL: server.url }), PEPSOL));
+
+    expect(tokens).toHaveLength(2);
+    expect(tokens.find(t => t.token_address === PEPSOL)).toMatchObject({ price: 0.000415, transaction_count: 515 });
+  });
+
+  it('merges with other sources on the mint regardless of case and keeps its casing', async () => {
+    const provider = new GeckoTerminalProvider();
+    const tokens = provider.map(await provider.fetch(axios.create({ baseURL: server.url })));
+    const dexscreener = mapDexScreenerToken({
+      baseToken: { address: BONK.toLowerCase(), name: 'Bonk', symbol: 'BONK' },
+      priceUsd: '0.000025',
+      liquidity: { usd: 100 },
+    });
+
+    const merged = new DataAggregatorService(undefined, new ProviderRegistry(), []).mergeTokens([tokens, [dexscreener]]);
+    const bonk = merged.filter(t => t.token_address.toLowerCase() === BONK.toLowerCase());
+    expect(bonk).toHaveLength(1);
+    expect(bonk[0]).toMatchObject({ token_address: BONK, is_merged: true });
+  });
+
+  it('charges one rate limit point per HTTP request', async () => {
+    class LocalGeckoTerminal extends GeckoTerminalProvider {
+      readonly baseUrl = server.url;
+      readonly rateLimit = { points: 3, duration: 60 };
+      readonly retry = { attempts: 1, baseDelay: 1 };
+    }
+    const registry = new ProviderRegistry();
+    registry.register(new LocalGeckoTerminal());
+    const aggregator = new DataAggregatorService(undefined, registry, ['geckoterminal']);
+
+    expect((await aggregator.refreshProvider('geckoterminal')).status).toBe('fulfilled');
+    // one point left, not enough for the next two requests
+    const second = await aggregator.refreshProvider('geckoterminal');
+    expect(second.status).toBe('rejected');
+    expect(second.error).toMatch(/Rate limit exceeded/);
+    expect(server.requests).toHaveLength(2);
+  });
+});
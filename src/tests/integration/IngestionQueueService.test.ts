@@ -0,0 +1,95 @@
+import { MemoryCacheBackend } from '../../cache';
+import { CacheService } from '../../services/CacheService';
+import { IngestionHandlers, IngestionQueueService } from '../../services/IngestionQueueService';
+import { QueueBroker } from '../helpers/inProcessQueue';
+import { makeToken } from '../helpers/tokens';
+
+const token = (address: string) => makeToken(address, { source: ['dexscreener'] });
+
+const handlers = (overrides: Partial<IngestionHandlers> = {}): jest.Mocked<IngestionHandlers> => ({
+  fetch: jest.fn(async () => [token('a'), token('b')]),
+  merge: jest.fn(async snapshots => Array.from(snapshots.values()).flatMap(snapshot => snapshot.tokens)),
+  persist: jest.fn(async () => undefined),
+  broadcast: jest.fn(async () => undefined),
+  evaluateAlerts: jest.fn(async () => undefined),
+  ...overrides,
+} as jest.Mocked<IngestionHandlers>);
+
+describe('IngestionQueueService', () => {
+  let broker: QueueBroker;
+  let cacheService: CacheService; // shared, standing in for the Redis every instance talks to
+  let services: IngestionQueueService[];
+
+  const instance = (stageHandlers: IngestionHandlers): IngestionQueueService => {
+    const service = new IngestionQueueService(cacheService, stageHandlers, broker.factory());
+    services.push(service);
+    return service;
+  };
+
+  beforeEach(() => {
+    broker = new QueueBroker();
+    cacheService = new CacheService(new MemoryCacheBackend(1000));
+    services = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(services.map(service => service.close()));
+  });
+
+  it('runs fetch -> merge -> persist -> alerts once and broadcasts on every instance', async () => {
+    const first = handlers();
+    const second = handlers();
+    instance(first).start();
+    const other = instance(second);
+    other.start();
+
+    await other.enqueueFetch('dexscreener');
+    await broker.idle();
+
+    const persisted = [...first.persist.mock.calls, ...second.persist.mock.calls];
+    expect(persisted).toEqual([[[token('a'), token('b')]]]);
+    expect(first.evaluateAlerts.mock.calls.length + second.evaluateAlerts.mock.calls.length).toBe(1);
+    // both instances own sockets, so both broadcast the batch
+    expect(first.broadcast).toHaveBeenCalledWith([token('a'), token('b')]);
+    expect(second.broadcast).toHaveBeenCalledWith([token('a'), token('b')]);
+  });
+
+  it('skips a batch merged before the one already persisted', async () => {
+    const stage = handlers();
+    instance(stage).start();
+    await cacheService.setKey('ingest:latest-batch', Date.now() + 60_000);
+
+    await services[0].enqueueFetch('dexscreener');
+    await broker.idle();
+
+    expect(stage.persist).not.toHaveBeenCalled();
+    expect(stage.broadcast).not.toHaveBeenCalled();
+    expect(stage.evaluateAlerts).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a stage after its retries and replays it', async () => {
+    const persist = jest.fn()
+      .mockRejectedValueOnce(new Error('write failed'))
+      .mockRejectedValueOnce(new Error('write failed'))
+      .mockRejectedValueOnce(new Error('write failed'))
+      .mockResolvedValue(undefined);
+    const stage = handlers({ persist });
+    const service = instance(stage);
+    service.start();
+
+    await service.enqueueFetch('dexscreener');
+    await broker.idle();
+
+    expect(persist).toHaveBeenCalledTimes(3);
+    const deadLetters = await service.getDeadLetters();
+    expect(deadLetters).toEqual([expect.objectContaining({ stage: 'persist', error: 'write failed', attemptsMade: 3 })]);
+    expect(stage.broadcast).not.toHaveBeenCalled();
+
+    expect(await service.replayDeadLetters()).toBe(1);
+    await broker.idle();
+
+    expect(persist).toHaveBeenCalledTimes(4);
+    expect(stage.broadcast).toHaveBeenCalledTimes(1);
+    expect((await service.getStatus()).deadLetter).toBe(0);
+  });
+});
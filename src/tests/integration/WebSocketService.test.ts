@@ -0,0 +1,378 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server as SocketIOServer } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { MemoryCacheBackend } from '../../cache';
+import { config } from '../../config';
+import { CacheService } from '../../services/CacheService';
+import { WebSocketService } from '../../services/WebSocketService';
+import { FeedUpdate, SignificantChange, SubscriptionAck, TokenDelta, TokenSnapshot, TokenUpdate, WebSocketMessage } from '../../types';
+import { makeToken } from '../helpers/tokens';
+
+const token = (address: string, price: number) => makeToken(address, { price, volume24h: 100, marketCap: 1000 });
+
+const nextMessage = (socket: ClientSocket, event: string) =>
+  new Promise<WebSocketMessage>(resolve => socket.once(event, resolve));
+
+// A WebSocketService on its own HTTP server; several of them sharing a cache backend
+// behave like instances of one deployment
+class ServiceHarness {
+  readonly io: SocketIOServer;
+  readonly service: WebSocketService;
+  private httpServer: HttpServer;
+  private clients: ClientSocket[] = [];
+
+  constructor(cacheService: CacheService = new CacheService(new MemoryCacheBackend(100))) {
+    this.httpServer = createServer();
+    this.io = new SocketIOServer(this.httpServer);
+    this.service = new WebSocketService(this.io, cacheService);
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>(resolve => this.httpServer.listen(0, '127.0.0.1', resolve));
+  }
+
+  // resolves once connected, with the snapshot sent on connect
+  async connect(): Promise<{ client: ClientSocket; initial: WebSocketMessage }> {
+    const url = `http://127.0.0.1:${(this.httpServer.address() as AddressInfo).port}`;
+    const client = connect(url, { transports: ['websocket'], autoConnect: false });
+    this.clients.push(client);
+    const initial = nextMessage(client, 'token_snapshot');
+    client.connect();
+    return { client, initial: await initial };
+  }
+
+  async close(): Promise<void> {
+    this.clients.forEach(client => client.close());
+    await new Promise<void>(resolve => this.io.close(() => resolve()));
+  }
+}
+
+describe('WebSocketService token subscriptions', () => {
+  let harness: ServiceHarness;
+  let service: WebSocketService;
+  let client: ClientSocket;
+
+  beforeEach(async () => {
+    harness = new ServiceHarness();
+    service = harness.service;
+    await harness.listen();
+    ({ client } = await harness.connect());
+    service.broadcastTokenUpdate([token('aaa', 1), token('bbb', 1)]);
+  });
+
+  afterEach(() => harness.close());
+
+  const subscribe = (tokens: string[], fields?: string) =>
+    client.emitWithAck('subscribe_tokens', { tokens, fields }) as Promise<WebSocketMessage>;
+
+  it('keeps the projection each token was subscribed with', async () => {
+    await subscribe(['aaa'], 'price');
+    await subscribe(['bbb'], 'volume24h');
+
+    const updates: TokenUpdate[] = [];
+    const received = new Promise<void>(resolve => client.on('subscribed_token_update', (message: WebSocketMessage) => {
+      updates.push(message.data);
+      if (updates.length === 2) resolve();
+    }));
+    service.broadcastTokenUpdate([{ ...token('aaa', 2), volume24h: 200 }, { ...token('bbb', 2), volume24h: 200 }]);
+    await received;
+
+    const byAddress = Object.fromEntries(updates.map(update => [update.address, update.patch]));
+    expect(byAddress).toEqual({ aaa: { price: 2 }, bbb: { volume24h: 200 } });
+  });
+
+  it('refuses unknown fields in the subscription ack shape without subscribing', async () => {
+    await subscribe(['aaa']);
+    const message = await subscribe(['bbb'], 'nope');
+    const ack: SubscriptionAck = message.data;
+
+    expect(message.type).toBe('initial_data');
+    expect(ack).toEqual(expect.objectContaining({ subscribed: ['aaa'], rejected: ['bbb'], tokens: [], error: 'unknown field "nope"' }));
+  });
+});
+
+describe('WebSocketService delta stream', () => {
+  let harness: ServiceHarness;
+
+  beforeEach(async () => {
+    harness = new ServiceHarness();
+    await harness.listen();
+  });
+
+  afterEach(() => harness.close());
+
+  it('sends a baseline on connect, then deltas chained by seq', async () => {
+    harness.service.broadcastTokenUpdate([token('aaa', 1), token('bbb', 1)]);
+    const { client, initial } = await harness.connect();
+    const baseline: TokenSnapshot = initial.data;
+    expect(initial.type).toBe('initial_data');
+    expect(baseline.seq).toBe(1);
+    expect(baseline.tokens.map(t => t.token_address)).toEqual(['aaa', 'bbb']);
+
+    const first = nextMessage(client, 'token_updates');
+    harness.service.broadcastTokenUpdate([token('aaa', 2), token('ccc', 1)]);
+    const delta: TokenDelta = (await first).data;
+    expect(delta).toMatchObject({ seq: 2, prev_seq: 1, updated: { aaa: { price: 2 } }, removed: ['bbb'] });
+    expect(delta.added.map(t => t.token_address)).toEqual(['ccc']);
+
+    // an unchanged snapshot is not a new seq
+    harness.service.broadcastTokenUpdate([token('aaa', 2), token('ccc', 1)]);
+    const second = nextMessage(client, 'token_updates');
+    harness.service.broadcastTokenUpdate([token('aaa', 3), token('ccc', 1)]);
+    expect((await second).data).toMatchObject({ seq: 3, prev_seq: 2, updated: { aaa: { price: 3 } } });
+  });
+
+  it('answers resync with the current snapshot and seq', async () => {
+    const { client } = await harness.connect();
+    harness.service.broadcastTokenUpdate([token('aaa', 1)]);
+    harness.service.broadcastTokenUpdate([token('aaa', 2), token('bbb', 1)]);
+
+    const reply = nextMessage(client, 'token_snapshot');
+    client.emit('resync');
+    const message = await reply;
+    const snapshot: TokenSnapshot = message.data;
+
+    expect(message.type).toBe('snapshot');
+    expect(snapshot.seq).toBe(2);
+    expect(snapshot.tokens.map(t => [t.token_address, t.price])).toEqual([['aaa', 2], ['bbb', 1]]);
+  });
+
+  it('leaves opt-in fields out of the firehose', async () => {
+    const { client } = await harness.connect();
+    const update = nextMessage(client, 'token_updates');
+    harness.service.broadcastTokenUpdate([
+      makeToken('aaa', { provenance: { price: { source: 'dexscreener', values: { dexscreener: 1 } } } }),
+    ]);
+
+    const delta: TokenDelta = (await update).data;
+    expect(delta.added[0]).not.toHaveProperty('provenance');
+  });
+});
+
+describe('WebSocketService subscription rooms', () => {
+  let harness: ServiceHarness;
+  const limit = config.websocket.maxSubscriptionsPerClient;
+
+  beforeEach(async () => {
+    config.websocket.maxSubscriptionsPerClient = 2;
+    harness = new ServiceHarness();
+    await harness.listen();
+    harness.service.broadcastTokenUpdate([token('aaa', 1), token('bbb', 1), token('ccc', 1)]);
+  });
+
+  afterEach(async () => {
+    config.websocket.maxSubscriptionsPerClient = limit;
+    await harness.close();
+  });
+
+  const subscribe = (client: ClientSocket, tokens: string[]) =>
+    client.emitWithAck('subscribe_tokens', { tokens }) as Promise<WebSocketMessage>;
+
+  it('acks with the current tokens and versions, up to the per-client limit', async () => {
+    const { client } = await harness.connect();
+    const message = await subscribe(client, ['AAA', 'bbb', 'ccc']);
+    const ack: SubscriptionAck = message.data;
+
+    expect(message.type).toBe('initial_data');
+    expect(ack).toMatchObject({ subscribed: ['aaa', 'bbb'], rejected: ['ccc'], limit: 2, versions: { aaa: 1, bbb: 1 } });
+    expect(ack.tokens.map(t => [t.token_address, t.price])).toEqual([['aaa', 1], ['bbb', 1]]);
+
+    // re-subscribing to a held token doesn't count against the limit
+    expect((await subscribe(client, ['bbb'])).data).toMatchObject({ subscribed: ['aaa', 'bbb'], rejected: [] });
+  });
+
+  it('delivers only the subscribed tokens and leaves the firehose while subscribed', async () => {
+    const { client: subscriber } = await harness.connect();
+    const { client: watcher } = await harness.connect();
+    await subscribe(subscriber, ['aaa']);
+
+    const firehose: TokenDelta[] = [];
+    const updates: TokenUpdate[] = [];
+    subscriber.on('token_updates', (message: WebSocketMessage) => firehose.push(message.data));
+    subscriber.on('subscribed_token_update', (message: WebSocketMessage) => updates.push(message.data));
+
+    // the watcher stays on the firehose, so its delta marks when the broadcast has gone out
+    const delivered = nextMessage(watcher, 'token_updates');
+    harness.service.broadcastTokenUpdate([token('aaa', 2), token('bbb', 2), token('ccc', 1)]);
+    await delivered;
+    // a round trip on the subscriber's own socket flushes whatever was sent to it before
+    await subscriber.emitWithAck('unsubscribe_tokens', { tokens: [] });
+
+    expect(firehose).toEqual([]);
+    expect(updates).toEqual([{ address: 'aaa', version: 2, prev_version: 1, patch: { price: 2 } }]);
+  });
+
+  it('returns a client to the firehose once it unsubscribes from everything', async () => {
+    const { client } = await harness.connect();
+    await subscribe(client, ['aaa', 'bbb']);
+
+    const reply = await client.emitWithAck('unsubscribe_tokens', { tokens: ['aaa'] }) as WebSocketMessage;
+    expect(reply.data).toEqual({ subscribed: ['bbb'] });
+    await client.emitWithAck('unsubscribe_tokens', { tokens: ['bbb'] });
+
+    const delta = nextMessage(client, 'token_updates');
+    harness.service.broadcastTokenUpdate([token('aaa', 3), token('bbb', 1), token('ccc', 1)]);
+    expect((await delta).data).toMatchObject({ updated: { aaa: { price: 3 } } });
+  });
+});
+
+describe('WebSocketService live feeds', () => {
+  let harness: ServiceHarness;
+  let client: ClientSocket;
+
+  const pool = (address: string, volume24h: number, liquidity: number, dex = 'raydium') =>
+    makeToken(address, { volume24h, liquidity, dex });
+
+  beforeEach(async () => {
+    harness = new ServiceHarness();
+    await harness.listen();
+    harness.service.broadcastTokenUpdate([
+      pool('aaa', 300, 60_000),
+      pool('bbb', 200, 70_000),
+      pool('ccc', 100, 80_000),
+      pool('ddd', 900, 10_000), // too shallow
+      pool('eee', 800, 90_000, 'orca'),
+    ]);
+    ({ client } = await harness.connect());
+  });
+
+  afterEach(() => harness.close());
+
+  const subscribeFeed = (filters: Record<string, unknown>, feed_id = 'raydium', fields?: string) =>
+    client.emitWithAck('subscribe_feed', { feed_id, filters, fields }) as Promise<WebSocketMessage>;
+  const raydiumTop2 = { dex: 'raydium', min_liquidity: 50_000, sort_by: 'volume', sort_order: 'desc', limit: 2 };
+
+  it('replies with the filtered, sorted and limited view', async () => {
+    const message = await subscribeFeed(raydiumTop2, 'raydium', 'volume24h');
+
+    expect(message.type).toBe('initial_data');
+    expect(message.data.tokens).toEqual([
+      { token_address: 'aaa', volume24h: 300 },
+      { token_address: 'bbb', volume24h: 200 },
+    ]);
+  });
+
+  it('pushes entries, exits, rank moves and patches for the view on each refresh', async () => {
+    await subscribeFeed(raydiumTop2, 'raydium', 'volume24h');
+
+    const pushed = nextMessage(client, 'feed_update');
+    harness.service.broadcastTokenUpdate([
+      pool('aaa', 300, 60_000),
+      pool('bbb', 400, 70_000),
+      pool('ccc', 500, 80_000),
+      pool('ddd', 900, 10_000),
+      pool('eee', 800, 90_000, 'orca'),
+    ]);
+    const update: FeedUpdate = (await pushed).data;
+
+    expect(update).toEqual({
+      feed_id: 'raydium',
+      entries: [{ address: 'ccc', rank: 1, token: { token_address: 'ccc', volume24h: 500 } }],
+      exits: ['aaa'],
+      rank_changes: [],
+      updated: { bbb: { volume24h: 400 } },
+    });
+  });
+
+  it('stays quiet when nothing in the view changed', async () => {
+    await subscribeFeed(raydiumTop2);
+    const updates: WebSocketMessage[] = [];
+    client.on('feed_update', (message: WebSocketMessage) => updates.push(message));
+
+    // only a token outside the view moves
+    harness.service.broadcastTokenUpdate([
+      pool('aaa', 300, 60_000),
+      pool('bbb', 200, 70_000),
+      pool('ccc', 100, 80_000),
+      pool('ddd', 950, 10_000),
+      pool('eee', 800, 90_000, 'orca'),
+    ]);
+    await client.emitWithAck('unsubscribe_tokens', { tokens: [] });
+
+    expect(updates).toEqual([]);
+  });
+
+  it('rejects invalid filters and feeds past the per-client limit', async () => {
+    const invalid = await subscribeFeed({ min_liquidity: 'lots' });
+    expect(invalid.type).toBe('feed_update');
+    expect(invalid.data.error).toMatch(/min_liquidity/);
+
+    for (let i = 0; i < config.websocket.maxFeedsPerClient; i++) {
+      expect((await subscribeFeed({}, `feed-${i}`)).type).toBe('initial_data');
+    }
+    const overLimit = await subscribeFeed({}, 'one-too-many');
+    expect(overLimit.data).toEqual({ feed_id: 'one-too-many', error: `Feed limit of ${config.websocket.maxFeedsPerClient} reached` });
+  });
+});
+
+describe('WebSocketService change events', () => {
+  let leader: ServiceHarness;
+  let follower: ServiceHarness;
+
+  beforeEach(async () => {
+    const backend = new MemoryCacheBackend(100);
+    leader = new ServiceHarness(new CacheService(backend));
+    follower = new ServiceHarness(new CacheService(backend));
+    await Promise.all([leader.listen(), follower.listen()]);
+  });
+
+  afterEach(() => Promise.all([leader.close(), follower.close()]));
+
+  const priceChange = (address: string, previous: number, current: number): SignificantChange => ({
+    metric: 'price',
+    token: token(address, current),
+    previous,
+    current,
+    change_percent: ((current - previous) / previous) * 100,
+  });
+
+  it('reaches clients of every instance, not just the one that detected the change', async () => {
+    const { client: onLeader } = await leader.connect();
+    const { client: onFollower } = await follower.connect();
+    const received = Promise.all([nextMessage(onLeader, 'price_alert'), nextMessage(onFollower, 'price_alert')]);
+
+    await leader.service.broadcastSignificantChange(priceChange('aaa', 1, 2));
+
+    for (const message of await received) {
+      expect(message.type).toBe('price_update');
+      expect(message.data).toEqual(expect.objectContaining({ token_address: 'aaa', old_price: 1, new_price: 2, direction: 'up' }));
+    }
+  });
+
+  it('delivers user alerts to the owner on whichever instance they are connected to', async () => {
+    const { client: alice } = await follower.connect();
+    const { client: bob } = await follower.connect();
+    await alice.emitWithAck('identify', { api_key: 'key-alice' });
+    await bob.emitWithAck('identify', { api_key: 'key-bob' });
+    const bobAlerts: WebSocketMessage[] = [];
+    bob.on('alert_triggered', (message: WebSocketMessage) => bobAlerts.push(message));
+
+    const received = nextMessage(alice, 'alert_triggered');
+    await leader.service.sendToOwner('alice', { type: 'alert_triggered', data: { rule_id: 'r1' }, timestamp: Date.now() });
+
+    expect((await received).data).toEqual({ rule_id: 'r1' });
+    await bob.emitWithAck('unsubscribe_tokens', { tokens: [] });
+    expect(bobAlerts).toEqual([]);
+  });
+
+  it('stays off the versioned stream of token subscribers', async () => {
+    follower.service.broadcastTokenUpdate([token('aaa', 1)]);
+    const { client } = await follower.connect();
+    await client.emitWithAck('subscribe_tokens', { tokens: ['aaa'] });
+
+    const versioned: WebSocketMessage[] = [];
+    const alerts: WebSocketMessage[] = [];
+    client.on('subscribed_token_update', (message: WebSocketMessage) => versioned.push(message));
+    client.on('price_alert', (message: WebSocketMessage) => alerts.push(message));
+
+    const received = nextMessage(client, 'price_alert');
+    await leader.service.broadcastSignificantChange(priceChange('aaa', 1, 2));
+    await received;
+    // round trip so anything emitted alongside the alert has arrived
+    await client.emitWithAck('unsubscribe_tokens', { tokens: [] });
+
+    expect(alerts).toHaveLength(1);
+    expect(versioned).toEqual([]);
+  });
+});
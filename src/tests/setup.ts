@@ -0,0 +1,10 @@
+import { logger } from '../utils/logger';
+
+// Tests run without Redis, background jobs or console noise
+process.env.CACHE_BACKEND = 'memory';
+process.env.SCHEDULER_ENABLED = 'false';
+process.env.QUEUE_ENABLED = 'false';
+process.env.CURSOR_SECRET = process.env.CURSOR_SECRET || 'test-cursor-secret';
+process.env.ALERT_API_KEYS = 'key-alice:alice,key-bob:bob';
+
+logger.silent = true;
@@ -0,0 +1,126 @@
+import { MemoryCacheBackend } from '../../cache';
+import { config } from '../../config';
+import { AlertService } from '../../services/AlertService';
+import { CacheService } from '../../services/CacheService';
+import { WebSocketService } from '../../services/WebSocketService';
+import { startMockHttpServer } from '../helpers/mockHttpServer';
+import { makeToken } from '../helpers/tokens';
+
+const token = (price: number) => makeToken('abc', { price, priceChange1h: 0 });
+
+describe('AlertService', () => {
+  let cacheService: CacheService;
+  let sendToOwner: jest.Mock;
+  let alerts: AlertService;
+
+  beforeEach(() => {
+    cacheService = new CacheService(new MemoryCacheBackend(1000));
+    sendToOwner = jest.fn();
+    alerts = new AlertService(cacheService, { sendToOwner } as unknown as WebSocketService);
+  });
+
+  afterEach(async () => {
+    await alerts.flushDeliveries();
+  });
+
+  it('scopes rules and history to their owner', async () => {
+    const rule = await alerts.createRule('alice', { token_address: 'ABC', condition: 'price_above', threshold: 1 });
+    await alerts.createRule('bob', { token_address: 'abc', condition: 'price_above', threshold: 1 });
+
+    expect((await alerts.listRules('alice')).map(r => r.id)).toEqual([rule.id]);
+    expect(await alerts.deleteRule(rule.id, 'bob')).toBe(false);
+    expect(await alerts.listRules('alice')).toHaveLength(1);
+
+    await alerts.evaluate([token(2)]);
+    await alerts.flushDeliveries();
+    expect((await alerts.getHistory('alice')).map(alert => alert.rule_id)).toEqual([rule.id]);
+    expect(await alerts.getHistory('bob')).toHaveLength(1);
+
+    expect(await alerts.deleteRule(rule.id, 'alice')).toBe(true);
+    expect(await alerts.listRules('alice')).toEqual([]);
+  });
+
+  it('fires once when evaluations race on the same edge', async () => {
+    await alerts.createRule('alice', { token_address: 'abc', condition: 'price_above', threshold: 1 });
+    const other = new AlertService(cacheService, { sendToOwner } as unknown as WebSocketService);
+
+    const [first, second] = await Promise.all([alerts.evaluate([token(2)]), other.evaluate([token(2)])]);
+
+    expect(first.length + second.length).toBe(1);
+    expect(sendToOwner).toHaveBeenCalledTimes(1);
+    await other.flushDeliveries();
+  });
+
+  it('does not recreate a rule deleted during evaluation', async () => {
+    const rule = await alerts.createRule('alice', { token_address: 'abc', condition: 'price_above', threshold: 1 });
+    const getSetMembers = cacheService.getSetMembers.bind(cacheService);
+    jest.spyOn(cacheService, 'getSetMembers').mockImplementationOnce(async key => {
+      const ids = await getSetMembers(key);
+      await alerts.deleteRule(rule.id, 'alice');
+      return ids;
+    });
+
+    expect(await alerts.evaluate([token(2)])).toEqual([]);
+    expect(await cacheService.getKey(`alerts:rule:${rule.id}`)).toBeNull();
+  });
+
+  it('delivers webhooks after evaluate returns', async () => {
+    const server = await startMockHttpServer({ '/hook': { body: { ok: true } } });
+    const webhookUrl = config.alerts.webhookUrl;
+    config.alerts.webhookUrl = `${server.url}/hook`;
+    try {
+      await alerts.createRule('alice', { token_address: 'abc', condition: 'price_above', threshold: 1 });
+
+      const [fired] = await alerts.evaluate([token(2)]);
+      expect(fired.webhook_status).toBeUndefined();
+      expect(sendToOwner).toHaveBeenCalledWith('alice', expect.objectContaining({ type: 'alert_triggered' }));
+
+      await alerts.flushDeliveries();
+      expect(server.requests).toEqual(['/hook']);
+      expect(await alerts.getHistory('alice')).toEqual([expect.objectContaining({ id: fired.id, webhook_status: 'delivered' })]);
+    } finally {
+      config.alerts.webhookUrl = webhookUrl;
+      await server.close();
+    }
+  });
+
+  it('judges change rules by the 1h change from our own history first, skipping tokens without one', async () => {
+    await alerts.createRule('alice', { token_address: 'abc', condition: 'change_1h_above', threshold: 5 });
+
+    expect(await alerts.evaluate([makeToken('abc')])).toEqual([]);
+    expect(await alerts.evaluate([makeToken('abc', { priceChange1h: 1, priceChanges: { '1h': 8 } })]))
+      .toEqual([expect.objectContaining({ condition: 'change_1h_above', value: 8 })]);
+  });
+
+  describe('webhook retries', () => {
+    const webhookUrl = config.alerts.webhookUrl;
+
+    afterEach(() => {
+      config.alerts.webhookUrl = webhookUrl;
+    });
+
+    const deliverWith = async (statuses: number[]) => {
+      const server = await startMockHttpServer({
+        '/hook': () => ({ status: statuses.shift() ?? 200, body: {} }),
+      });
+      config.alerts.webhookUrl = `${server.url}/hook`;
+      try {
+        await alerts.createRule('alice', { token_address: 'abc', condition: 'price_above', threshold: 1 });
+        await alerts.evaluate([token(2)]);
+        await alerts.flushDeliveries();
+        const [alert] = await alerts.getHistory('alice');
+        return { status: alert.webhook_status, attempts: server.requests.length };
+      } finally {
+        await server.close();
+      }
+    };
+
+    it.each([503, 429])('retries a %i response', async (status) => {
+      expect(await deliverWith([status])).toEqual({ status: 'delivered', attempts: 2 });
+    });
+
+    it('gives up on other client errors straight away', async () => {
+      expect(await deliverWith([400])).toEqual({ status: 'failed', attempts: 1 });
+    });
+  });
+});
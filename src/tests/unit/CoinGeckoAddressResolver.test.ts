@@ -0,0 +1,41 @@
+import { MemoryCacheBackend } from '../../cache';
+import { CacheService } from '../../services/CacheService';
+import { CoinGeckoAddressResolver } from '../../services/CoinGeckoAddressResolver';
+import { makeToken } from '../helpers/tokens';
+
+
+// CoinGecko reports tokens under their slug until resolved
+const bonk = makeToken('bonk', { token_name: 'Bonk', source: ['coingecko'] });
+
+describe('CoinGeckoAddressResolver', () => {
+  let cacheService: CacheService;
+
+  beforeEach(() => {
+    cacheService = new CacheService(new MemoryCacheBackend(100));
+  });
+
+  it('maps slugs through the platform list before fuzzy matching', async () => {
+    const resolver = new CoinGeckoAddressResolver(cacheService, async () => [
+      { id: 'bonk', platforms: { solana: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263' } },
+    ]);
+    const [resolvedBonk, wif] = await resolver.resolve(
+      [bonk, makeToken('dogwifcoin', { token_name: 'dogwifhat', token_ticker: 'WIF', source: ['coingecko'] })],
+      [makeToken('EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm', { token_name: 'dogwifhat', token_ticker: 'WIF', source: ['dexscreener'] })]
+    );
+
+    // mints keep their case-sensitive base58 spelling
+    expect(resolvedBonk).toMatchObject({ token_address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', addressResolution: 'platform' });
+    expect(wif).toMatchObject({ token_address: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm', addressResolution: 'fuzzy', mergeConfidence: 1 });
+  });
+
+  it('does not refetch the coins list on every cycle after a failure', async () => {
+    const fetchCoinsList = jest.fn().mockRejectedValue(new Error('429'));
+    const resolver = new CoinGeckoAddressResolver(cacheService, fetchCoinsList);
+
+    await resolver.resolve([bonk], []);
+    const [unresolved] = await resolver.resolve([bonk], []);
+
+    expect(fetchCoinsList).toHaveBeenCalledTimes(1);
+    expect(unresolved.token_address).toBe('bonk');
+  });
+});
@@ -0,0 +1,72 @@
+import { DexScreenerProvider } from '../../providers/DexScreenerProvider';
+import { DexScreenerPair } from '../../types';
+
+const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const pair = (pairAddress: string, dexId: string, fields: Partial<DexScreenerPair>): DexScreenerPair => ({
+  pairAddress,
+  dexId,
+  url: `https://dexscreener.com/solana/${pairAddress}`,
+  baseToken: { address: MINT, name: 'Bonk', symbol: 'BONK' },
+  ...fields,
+});
+
+describe('DexScreenerProvider pair aggregation', () => {
+  const provider = new DexScreenerProvider();
+
+  it('collapses every pool of a token into one record with summed metrics', () => {
+    const [bonk, ...rest] = provider.map([
+      pair('orca-pool', 'orca', {
+        priceUsd: '0.00003', liquidity: { usd: 1_000 }, volume: { h24: 500 },
+        txns: { h24: { buys: 10, sells: 5 }, h1: { buys: 1, sells: 1 } }, pairCreatedAt: Date.UTC(2024, 0, 2),
+      }),
+      pair('raydium-pool', 'raydium', {
+        priceUsd: '0.00002', liquidity: { usd: 3_000 }, volume: { h24: 1_500 }, priceChange: { h1: 4 },
+        txns: { h24: { buys: 20, sells: 15 }, h1: { buys: 2, sells: 3 } }, pairCreatedAt: Date.UTC(2024, 0, 1),
+      }),
+      pair('meteora-pool', 'meteora', { priceUsd: '0.00004', volume: { h24: 100 } }),
+    ]);
+
+    expect(rest).toHaveLength(0);
+    expect(bonk).toMatchObject({
+      token_address: MINT,
+      liquidity: 4_000,
+      volume24h: 2_100,
+      transaction_count: 50,
+      transactionCounts: { m5: 0, h1: 7, h6: 0, h24: 50 },
+      // the deepest pool is primary for dex, url and change fields
+      dex: 'raydium',
+      dexUrl: 'https://dexscreener.com/solana/raydium-pool',
+      priceChange1h: 4,
+      pairCreatedAt: new Date(Date.UTC(2024, 0, 1)).toISOString(),
+    });
+    // liquidity-weighted, so the pool without liquidity doesn't move the price
+    expect(bonk.price).toBeCloseTo((0.00003 * 1_000 + 0.00002 * 3_000) / 4_000, 12);
+    expect(bonk.pairs!.map(p => [p.pairAddress, p.liquidity])).toEqual([
+      ['raydium-pool', 3_000],
+      ['orca-pool', 1_000],
+      ['meteora-pool', 0],
+    ]);
+  });
+
+  it('uses the primary pool price when no pool reports liquidity', () => {
+    const [token] = provider.map([
+      pair('a-pool', 'raydium', { priceUsd: '2', volume: { h24: 10 } }),
+      pair('b-pool', 'orca', { priceUsd: '4', volume: { h24: 20 } }),
+    ]);
+
+    expect(token.price).toBe(2);
+    expect(token.volume24h).toBe(30);
+    expect(token.pairs).toHaveLength(2);
+  });
+
+  it('keeps tokens apart and drops pairs without a price', () => {
+    const tokens = provider.map([
+      pair('a-pool', 'raydium', { priceUsd: '1' }),
+      { ...pair('b-pool', 'raydium', { priceUsd: '2' }), baseToken: { address: 'OtherMint111', symbol: 'OTH' } },
+      pair('c-pool', 'orca', {}),
+    ]);
+
+    expect(tokens.map(t => [t.token_address, t.pairs!.length])).toEqual([[MINT, 1], ['OtherMint111', 1]]);
+  });
+});
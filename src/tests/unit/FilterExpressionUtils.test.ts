@@ -0,0 +1,95 @@
+import { NextFunction, Request, Response } from 'express';
+import { validate } from '../../middleware/validate';
+import { tokenListQuery } from '../../schemas';
+import { TokenData } from '../../types';
+import { compileFilter, FilterSyntaxError } from '../../utils/services/FilterExpressionUtils';
+
+const token = (overrides: Partial<TokenData> = {}): TokenData => ({
+  token_address: 'abc',
+  token_name: 'Abc',
+  token_ticker: 'ABC',
+  price: 10,
+  volume24h: 50,
+  marketCap: 1_000_000,
+  liquidity: 20_000,
+  dex: 'raydium',
+  source: ['dexscreener'],
+  pairCreatedAt: new Date(Date.now() - 2 * 3_600_000).toISOString(),
+  ...overrides,
+} as TokenData);
+
+const matches = (expression: string, overrides?: Partial<TokenData>) => compileFilter(expression)(token(overrides));
+
+const syntaxError = (expression: string): FilterSyntaxError => {
+  try {
+    compileFilter(expression);
+  } catch (error) {
+    return error as FilterSyntaxError;
+  }
+  throw new Error(`"${expression}" compiled`);
+};
+
+describe('compileFilter', () => {
+  it('binds and tighter than or, and not tighter than and', () => {
+    expect(matches('price > 5 or price < 2 and volume > 100')).toBe(true);
+    expect(matches('(price > 5 or price < 2) and volume > 100')).toBe(false);
+    expect(matches('not price > 50 and volume > 100')).toBe(false);
+    expect(matches('not (price > 50 and volume > 100)')).toBe(true);
+  });
+
+  it('supports in and not in against lists', () => {
+    expect(matches('dex in (orca, raydium)')).toBe(true);
+    expect(matches('dex not in (orca, meteora)')).toBe(true);
+    expect(matches('dex not in (orca, RAYDIUM)')).toBe(false);
+    expect(matches("source in ('coingecko')")).toBe(false);
+  });
+
+  it('reads the and after between as its upper bound', () => {
+    expect(matches('market_cap between 1e5 and 5e6 and liquidity > 10000')).toBe(true);
+    expect(matches('market_cap between 1e5 and 5e5 or liquidity > 10000')).toBe(true);
+    expect(matches('market_cap between 2e6 and 5e6')).toBe(false);
+  });
+
+  it('converts age units to hours', () => {
+    expect(matches('age < 150m')).toBe(true);
+    expect(matches('age < 90m')).toBe(false);
+    expect(matches('age between 1h and 1d')).toBe(true);
+    expect(matches('age > 1')).toBe(true);
+    expect(syntaxError('age < 2w').message).toContain('expected a duration');
+  });
+
+  it('parses exponents and negative numbers', () => {
+    expect(matches('volume >= 5e1 and volume <= 0.5E2')).toBe(true);
+    expect(matches('price < 2e-3', { price: 0.001 })).toBe(true);
+    expect(matches('change_1h > -5', { priceChange1h: -2 })).toBe(true);
+    expect(syntaxError('price > 5h').message).toContain('expected a number');
+  });
+
+  it('never matches a missing metric except through not', () => {
+    expect(matches('change_24h > -100')).toBe(false);
+    expect(matches('not change_24h > -100')).toBe(true);
+  });
+
+  it.each([
+    ['price >> 5', 7, 'expected a number'],
+    ['foo = 1', 0, 'unknown field "foo"'],
+    ['price >', 7, 'unexpected end of expression'],
+    ['price = 1 )', 10, 'unexpected ")"'],
+    ['price = 1 and #', 14, 'unexpected character "#"'],
+    ['dex > raydium', 4, '">" is not supported for dex'],
+    ['market_cap between 1 or 2', 21, 'expected "and" in between'],
+    ['  ', 0, 'empty expression'],
+  ])('reports %j at position %i', (expression, position, message) => {
+    const error = syntaxError(expression);
+    expect(error).toBeInstanceOf(FilterSyntaxError);
+    expect(error.code).toBe('INVALID_FILTER');
+    expect(error.message).toBe(`Invalid filter at position ${position}: ${message}`);
+  });
+
+  it('surfaces syntax errors as INVALID_FILTER through request validation', () => {
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+    validate({ query: tokenListQuery })({ query: { filter: 'price >' } } as unknown as Request, {} as Response, next);
+
+    expect(next.mock.calls[0][0]).toMatchObject({ status: 400, code: 'INVALID_FILTER' });
+  });
+});
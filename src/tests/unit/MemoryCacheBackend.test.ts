@@ -0,0 +1,71 @@
+import { MemoryCacheBackend } from '../../cache';
+
+describe('MemoryCacheBackend', () => {
+  let backend: MemoryCacheBackend;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend(10);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps sorted sets ordered by score, then member bytes, like Redis', async () => {
+    await backend.exec([
+      { op: 'zadd', key: 'z', score: 3, member: 'c' },
+      { op: 'zadd', key: 'z', score: 1, member: 'b' },
+      { op: 'zadd', key: 'z', score: 1, member: 'B' },
+      { op: 'zadd', key: 'z', score: 2, member: 'a' },
+      { op: 'zadd', key: 'z', score: 0, member: 'c' }, // re-scores an existing member
+    ]);
+
+    expect(await backend.zRange('z', 0, -1, false)).toEqual(['c', 'B', 'b', 'a']);
+    expect(await backend.zRangeByScore('z', 1, 2)).toEqual(['B', 'b', 'a']);
+    expect(await backend.zLatestAtOrBefore('z', [1.5, -1, 10])).toEqual(['b', null, 'a']);
+  });
+
+  it('trims and removes sorted set members by score', async () => {
+    await backend.exec([1, 2, 3, 4].map(score => ({ op: 'zadd' as const, key: 'z', score, member: String(score) })));
+    await backend.exec([
+      { op: 'ztrim', key: 'z', minScore: 2 },
+      { op: 'zremScore', key: 'z', score: 3 },
+    ]);
+
+    expect(await backend.zRange('z', 0, -1, false)).toEqual(['2', '4']);
+  });
+
+  it('expires keys and keeps the TTL on setIfPresent', async () => {
+    jest.useFakeTimers();
+    await backend.exec([{ op: 'set', key: 'k', value: 'a', ttl: 10 }]);
+
+    expect(await backend.setIfAbsent('k', 'b', 10)).toBe(false);
+    expect(await backend.setIfPresent('k', 'c')).toBe(true);
+    expect(await backend.get('k')).toBe('c');
+
+    jest.advanceTimersByTime(10_001);
+    expect(await backend.get('k')).toBeNull();
+    expect(await backend.setIfPresent('k', 'd')).toBe(false);
+  });
+
+  it('evicts the least recently used key past maxEntries', async () => {
+    await backend.exec(Array.from({ length: 10 }, (_, i) => ({ op: 'set' as const, key: `k${i}`, value: String(i) })));
+    await backend.get('k0');
+    await backend.exec([{ op: 'set', key: 'k10', value: '10' }]);
+
+    expect(await backend.get('k0')).toBe('0');
+    expect(await backend.get('k1')).toBeNull();
+  });
+
+  it('never evicts locks or keys under a persistent prefix', async () => {
+    const backend = new MemoryCacheBackend(2, ['alerts:']);
+    await backend.acquireLock('scheduler:leader', 'a', 60_000);
+    await backend.sAdd('alerts:rules', 'r1');
+    await backend.exec(Array.from({ length: 5 }, (_, i) => ({ op: 'set' as const, key: `k${i}`, value: String(i) })));
+
+    expect(await backend.acquireLock('scheduler:leader', 'b', 60_000)).toBe(false);
+    expect(await backend.sMembers('alerts:rules')).toEqual(['r1']);
+    expect(await backend.get('k2')).toBeNull();
+    expect(await backend.get('k4')).toBe('4');
+  });
+});
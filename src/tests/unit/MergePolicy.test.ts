@@ -0,0 +1,51 @@
+import { mergeTokenGroup } from '../../utils/services/DataAggregratorUtils';
+import { parseFields, project } from '../../utils/services/ProjectionUtils';
+import { MergePolicy, TokenData } from '../../types';
+import { makeToken } from '../helpers/tokens';
+
+// one source's report of the same mint
+const token = (source: string, lastUpdated: string, fields: Partial<TokenData> = {}) =>
+  makeToken('mint', { liquidity: 100, source: [source], lastUpdated, ...fields });
+
+const policy = (fields: MergePolicy['fields']): MergePolicy => ({
+  default: { strategy: 'priority', sources: ['dexscreener', 'geckoterminal', 'coingecko'] },
+  fields,
+  divergenceThreshold: 0.05,
+});
+
+describe('mergeTokenGroup', () => {
+  it('picks the source that observed the value most recently for `freshest`', () => {
+    const merged = mergeTokenGroup([
+      token('dexscreener', '2026-10-18T10:00:00.000Z', { price: 1 }),
+      token('coingecko', '2026-10-18T10:05:00.000Z', { price: 1.1 }),
+    ], policy({ price: { strategy: 'freshest' } }));
+
+    expect(merged.price).toBe(1.1);
+    expect(merged.provenance?.price?.source).toBe('coingecko');
+    // the merged record keeps the newest source timestamp rather than the merge time
+    expect(merged.lastUpdated).toBe('2026-10-18T10:05:00.000Z');
+  });
+
+  it('falls back to the default priority order when timestamps tie', () => {
+    const merged = mergeTokenGroup([
+      token('geckoterminal', '2026-10-18T10:00:00.000Z', { price: 2 }),
+      token('dexscreener', '2026-10-18T10:00:00.000Z', { price: 1 }),
+    ], policy({ price: { strategy: 'freshest' } }));
+
+    expect(merged.price).toBe(1);
+  });
+});
+
+describe('provenance projection', () => {
+  const merged = mergeTokenGroup([
+    token('dexscreener', '2026-10-18T10:00:00.000Z'),
+    token('coingecko', '2026-10-18T10:00:00.000Z'),
+  ], policy({}));
+
+  it('is left out unless fields= asks for it', () => {
+    expect(merged.provenance).toBeDefined();
+    expect(project(merged, null)).not.toHaveProperty('provenance');
+    expect(project(merged, parseFields('full'))).not.toHaveProperty('provenance');
+    expect(project(merged, parseFields('summary,provenance'))).toHaveProperty('provenance.price.source', 'dexscreener');
+  });
+});
@@ -0,0 +1,55 @@
+import { MemoryCacheBackend } from '../../cache';
+import { config } from '../../config';
+import { CacheService } from '../../services/CacheService';
+import { PriceHistoryService } from '../../services/PriceHistoryService';
+import { makeToken } from '../helpers/tokens';
+
+const token = makeToken('ABC', { price: 2, volume24h: 10, liquidity: 5, marketCap: 100 });
+
+describe('PriceHistoryService', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('expires a token history once it goes unsampled for the retention window', async () => {
+    jest.useFakeTimers();
+    const history = new PriceHistoryService(new CacheService(new MemoryCacheBackend(100)));
+
+    await history.recordSnapshot([token]);
+    expect(await history.getSamples('abc', 0)).toHaveLength(1);
+
+    jest.advanceTimersByTime(config.history.rollupRetention * 1000 + 1);
+    expect(await history.getSamples('abc', 0, Number.MAX_SAFE_INTEGER)).toEqual([]);
+  });
+
+  it('reads the change windows of a token in one backend call per history tier', async () => {
+    const backend = new MemoryCacheBackend(100);
+    const history = new PriceHistoryService(new CacheService(backend));
+    const now = Date.now();
+    await history.recordSnapshot([{ ...token, price: 1 }], now - 60 * 60 * 1000);
+    await history.recordSnapshot([{ ...token, price: 1.5 }], now - 5 * 60 * 1000);
+    const lookup = jest.spyOn(backend, 'zLatestAtOrBefore');
+
+    const [withChanges] = await history.withPriceChanges([token], now);
+
+    expect(lookup).toHaveBeenCalledTimes(2);
+    expect(withChanges.priceChanges).toEqual({ '5m': expect.closeTo(33.33, 2), '1h': 100 });
+  });
+
+  it('builds 1m candles from the samples within each minute', async () => {
+    const history = new PriceHistoryService(new CacheService(new MemoryCacheBackend(100)));
+    const minute = 60 * 1000;
+    const start = Math.floor(Date.now() / minute) * minute - 2 * minute;
+    const samples = [[0, 2, 10], [15, 3, 12], [30, 1, 12], [45, 2.5, 15], [60, 4, 16]];
+    for (const [second, price, volume24h] of samples) {
+      await history.recordSnapshot([{ ...token, price, volume24h }], start + second * 1000);
+    }
+
+    const candles = await history.getCandles('abc', '1m', start, start + 2 * minute);
+
+    expect(candles).toEqual([
+      expect.objectContaining({ time: start, open: 2, high: 3, low: 1, close: 2.5, volume: 5, samples: 4 }),
+      expect.objectContaining({ time: start + minute, open: 4, high: 4, low: 4, close: 4, volume: 1, samples: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { AxiosInstance } from 'axios';
+import { ProviderRegistry } from '../../providers';
+import { DataAggregatorService } from '../../services/DataAggregatorService';
+import { TokenSourceProvider } from '../../types';
+import { makeToken } from '../helpers/tokens';
+
+
+const provider = (name: string, fetch: (client: AxiosInstance) => Promise<string[]>): TokenSourceProvider<string> => ({
+  name,
+  baseUrl: 'http://localhost',
+  rateLimit: { points: 10, duration: 60 },
+  retry: { attempts: 1, baseDelay: 1 },
+  fetch,
+  map: records => records.map(address => makeToken(address, { volume24h: 100, liquidity: 10, source: [name], lastUpdated: new Date().toISOString() })),
+});
+
+describe('ProviderRegistry', () => {
+  it('rejects duplicate provider names', () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('a', async () => []));
+    expect(() => registry.register(provider('a', async () => []))).toThrow('already registered');
+  });
+
+  it('resolves enabled providers in config order and skips unknown names', () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('a', async () => []));
+    registry.register(provider('b', async () => []));
+    expect(registry.enabled(['b', 'missing', 'a']).map(p => p.name)).toEqual(['b', 'a']);
+  });
+});
+
+describe('DataAggregatorService.aggregate', () => {
+  it('merges fulfilled providers and reports rejected ones', async () => {
+    const registry = new ProviderRegistry();
+    registry.register(provider('a', async () => ['x', 'y']));
+    registry.register(provider('b', async () => { throw new Error('upstream down'); }));
+    const aggregator = new DataAggregatorService(undefined, registry, ['a', 'b']);
+
+    const { tokens, providers } = await aggregator.aggregate();
+
+    expect(tokens.map(t => t.token_address).sort()).toEqual(['x', 'y']);
+    expect(providers).toEqual([
+      expect.objectContaining({ provider: 'a', status: 'fulfilled', tokenCount: 2 }),
+      expect.objectContaining({ provider: 'b', status: 'rejected', error: 'upstream down' }),
+    ]);
+    expect(aggregator.getProviderStatus()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { RedisCacheBackend, RedisConnection } from '../../cache';
+import { config } from '../../config';
+
+type Command = [string, ...unknown[]];
+
+// Records the commands queued on each MULTI instead of talking to Redis
+const fakeClient = () => {
+  const transactions: Command[][] = [];
+  const client = {
+    on: jest.fn(),
+    multi: () => {
+      const commands: Command[] = [];
+      transactions.push(commands);
+      const multi: Record<string, unknown> = new Proxy({}, {
+        get: (_, name: string) => name === 'exec' || name === 'execAsPipeline'
+          ? async () => commands.map(() => [])
+          : (...args: unknown[]) => {
+            commands.push([name, ...args]);
+            return multi;
+          },
+      });
+      return multi;
+    },
+  };
+  return { client: client as unknown as RedisConnection, transactions };
+};
+
+describe('RedisCacheBackend', () => {
+  const mode = config.redis.mode;
+
+  afterEach(() => {
+    config.redis.mode = mode;
+  });
+
+  const writes = [
+    { op: 'hset' as const, key: 'token:a', fields: { price: '1' } },
+    { op: 'set' as const, key: 'tokens:meta', value: '{}', ttl: 30 },
+    { op: 'expire' as const, key: 'token:a', ttl: 30 },
+  ];
+
+  it('writes a batch in one MULTI on a single node', async () => {
+    config.redis.mode = 'standalone';
+    const { client, transactions } = fakeClient();
+
+    await new RedisCacheBackend(client).exec(writes);
+
+    expect(transactions).toEqual([[
+      ['hSet', 'token:a', { price: '1' }],
+      ['setEx', 'tokens:meta', 30, '{}'],
+      ['expire', 'token:a', 30],
+    ]]);
+  });
+
+  it('writes one MULTI per key in cluster mode', async () => {
+    config.redis.mode = 'cluster';
+    const { client, transactions } = fakeClient();
+
+    await new RedisCacheBackend(client).exec(writes);
+
+    expect(transactions).toEqual([
+      [['hSet', 'token:a', { price: '1' }], ['expire', 'token:a', 30]],
+      [['setEx', 'tokens:meta', 30, '{}']],
+    ]);
+  });
+
+  it('pipelines every score lookup of a key', async () => {
+    const { client, transactions } = fakeClient();
+
+    expect(await new RedisCacheBackend(client).zLatestAtOrBefore('history:a', [10, 20])).toEqual([null, null]);
+    expect(transactions).toEqual([[
+      ['zRange', 'history:a', 10, '-inf', { BY: 'SCORE', REV: true, LIMIT: { offset: 0, count: 1 } }],
+      ['zRange', 'history:a', 20, '-inf', { BY: 'SCORE', REV: true, LIMIT: { offset: 0, count: 1 } }],
+    ]]);
+  });
+
+  it('subscribes on a connection of its own, opened once', async () => {
+    const { client } = fakeClient();
+    const subscriber = { on: jest.fn(), connect: jest.fn(async () => undefined), subscribe: jest.fn(async () => undefined) };
+    const createSubscriber = jest.fn(() => subscriber as unknown as RedisConnection);
+    const backend = new RedisCacheBackend(client, createSubscriber);
+
+    const listener = jest.fn();
+    await backend.subscribe('ws:events', listener);
+    await backend.subscribe('other', listener);
+
+    expect(createSubscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber.connect).toHaveBeenCalledTimes(1);
+    expect(subscriber.subscribe.mock.calls).toEqual([['ws:events', listener], ['other', listener]]);
+  });
+});
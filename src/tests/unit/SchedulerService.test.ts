@@ -0,0 +1,57 @@
+import { MemoryCacheBackend } from '../../cache';
+import { CacheService } from '../../services/CacheService';
+import { SchedulerService } from '../../services/SchedulerService';
+
+describe('SchedulerService', () => {
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scheduler = new SchedulerService(new CacheService(new MemoryCacheBackend(100)));
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('does not run a job whose first tick was pending when stop() was called', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    scheduler.addJob('job', 10_000, run);
+
+    await scheduler.start();
+    await scheduler.stop();
+    await jest.advanceTimersByTimeAsync(20_000);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('can be started again after stop()', async () => {
+    const run = jest.fn().mockResolvedValue(undefined);
+    scheduler.addJob('job', 10_000, run);
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1_000);
+    await scheduler.stop();
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(1_000);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus()).toMatchObject({ started: true, role: 'leader' });
+  });
+
+  it('skips a tick while the previous run of the same job is still going', async () => {
+    let finish: () => void = () => undefined;
+    const run = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    scheduler.addJob('slow', 5_000, run);
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(scheduler.getStatus().jobs[0].lastOutcome).toBe('skipped_overlap');
+
+    finish();
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
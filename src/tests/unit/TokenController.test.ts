@@ -0,0 +1,326 @@
+import { AxiosInstance } from 'axios';
+import { Request, Response } from 'express';
+import { MemoryCacheBackend } from '../../cache';
+import { TokenController } from '../../controllers/TokenController';
+import { config } from '../../config';
+import { CacheService } from '../../services/CacheService';
+import { ProviderRegistry } from '../../providers';
+import { DataAggregatorService } from '../../services/DataAggregatorService';
+import { PriceHistoryService } from '../../services/PriceHistoryService';
+import { BatchTokenResponse, CacheWrite, PaginatedResponse, TokenData, TokenSourceProvider } from '../../types';
+import { validate } from '../../middleware/validate';
+import { tokenAddressParams, tokenBatchBody, tokenDetailQuery, tokenListQuery, tokenSearchQuery } from '../../schemas';
+import { makeToken } from '../helpers/tokens';
+
+type Handler = (req: Request, res: Response, next: (error?: unknown) => void) => Promise<void>;
+type Schemas = Parameters<typeof validate>[0];
+
+// Runs a handler behind validate(), as its route does, and resolves with the JSON body
+// it sent and the headers it set
+const respond = <T>(handler: Handler, schemas: Schemas, request: Partial<Request>) =>
+  new Promise<{ body: T; headers: Record<string, string> }>((resolve, reject) => {
+    const headers: Record<string, string> = {};
+    const res = {
+      json: (body: T) => resolve({ body, headers }),
+      status: () => res,
+      set: (name: string, value: string) => {
+        headers[name] = value;
+        return res;
+      },
+    } as unknown as Response;
+    const req = { query: {}, params: {}, ...request } as Request;
+    validate(schemas)(req, res, (error?: unknown) => (error ? reject(error) : handler(req, res, reject)));
+  });
+
+const call = async <T>(handler: Handler, schemas: Schemas, request: Partial<Request>) =>
+  (await respond<T>(handler, schemas, request)).body;
+
+describe('TokenController search', () => {
+  let cacheService: CacheService;
+  let searchUpstream: jest.Mock;
+  let controller: TokenController;
+
+  beforeEach(() => {
+    cacheService = new CacheService(new MemoryCacheBackend(1000));
+    searchUpstream = jest.fn(async () => ({ tokens: [], failed: [] }));
+    const aggregator = { searchUpstream } as unknown as DataAggregatorService;
+    controller = new TokenController(cacheService, aggregator, new PriceHistoryService(cacheService));
+  });
+
+  const search = (q: string) => call<{ tokens: TokenData[]; source: string }>(controller.searchTokens.bind(controller), { query: tokenSearchQuery }, { query: { q } });
+
+  it('answers from the local index, reading the blob once per snapshot', async () => {
+    await cacheService.setTokens([makeToken('aaa', { token_name: 'Pepe', volume24h: 10 }), makeToken('bbb', { token_name: 'Bonk', volume24h: 10 })]);
+    const getKey = jest.spyOn(cacheService, 'getKey');
+
+    expect((await search('pepe')).tokens.map(t => t.token_address)).toEqual(['aaa']);
+    expect((await search('bonk')).source).toBe('index');
+
+    expect(getKey.mock.calls.filter(([key]) => key === 'tokens:search')).toHaveLength(1);
+    expect(searchUpstream).not.toHaveBeenCalled();
+  });
+
+  it('shares one upstream search between concurrent misses and remembers a miss', async () => {
+    const [first, second] = await Promise.all([search('nothing'), search('$NOTHING ')]);
+    expect(first.tokens).toEqual([]);
+    expect(second.source).toBe('upstream');
+    expect(searchUpstream).toHaveBeenCalledTimes(1);
+
+    await search('nothing');
+    expect(searchUpstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not remember a miss while a provider was failing', async () => {
+    searchUpstream.mockResolvedValue({ tokens: [], failed: ['dexscreener'] });
+
+    await search('nothing');
+    await search('nothing');
+
+    expect(searchUpstream).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches upstream matches per token', async () => {
+    searchUpstream.mockResolvedValue({ tokens: [makeToken('ccc', { token_name: 'Wif', token_ticker: 'WIF', volume24h: 10 })], failed: [] });
+
+    expect((await search('wif')).tokens.map(t => t.token_address)).toEqual(['ccc']);
+    expect(await cacheService.getToken('ccc')).toEqual(expect.objectContaining({ token_ticker: 'WIF' }));
+  });
+});
+
+describe('TokenController pagination', () => {
+  const tokens = ['aaa', 'bbb', 'ccc'].map((address, i) => makeToken(address, { volume24h: 30 - i }));
+  let backend: MemoryCacheBackend;
+  let cacheService: CacheService;
+  let controller: TokenController;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend(1000);
+    cacheService = new CacheService(backend);
+    // a refresh that never lands keeps the cached snapshot in place
+    const aggregator = { getAllTokens: () => new Promise(() => undefined) } as unknown as DataAggregatorService;
+    controller = new TokenController(cacheService, aggregator, new PriceHistoryService(cacheService));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const page = (query: Record<string, unknown>) => call<PaginatedResponse>(controller.getTokens.bind(controller), { query: tokenListQuery }, { query: query as Request['query'] });
+
+  const snapshotWrites = (exec: jest.SpyInstance<Promise<void>, [CacheWrite[]]>) =>
+    exec.mock.calls.filter(([writes]) => writes.some(write => write.key.startsWith('tokens:snapshot:'))).length;
+
+  it('writes the versioned snapshot once across instances, when its first cursor is issued', async () => {
+    const exec = jest.spyOn(backend, 'exec');
+    await cacheService.setTokens(tokens);
+    expect(snapshotWrites(exec)).toBe(0);
+
+    const first = await page({ limit: 1 });
+    await page({ limit: 1 });
+    await page({ limit: 1, min_volume: 1 });
+    // another instance on the same cache sees the copy is already there
+    const otherCache = new CacheService(backend);
+    const other = new TokenController(otherCache, {} as DataAggregatorService, new PriceHistoryService(otherCache));
+    await call<PaginatedResponse>(other.getTokens.bind(other), { query: tokenListQuery }, { query: { limit: '1' } });
+    expect(snapshotWrites(exec)).toBe(1);
+
+    const second = await page({ limit: 1, cursor: first.next_cursor });
+    expect(second.tokens.map(t => t.token_address)).toEqual(['bbb']);
+  });
+
+  it('pages from the snapshot when a refresh lands while the index is read', async () => {
+    jest.useFakeTimers();
+    await cacheService.setTokens(tokens);
+    await page({ limit: 1 });
+
+    const getTokenPage = cacheService.getTokenPage.bind(cacheService);
+    jest.spyOn(cacheService, 'getTokenPage').mockImplementationOnce(async (...args) => {
+      jest.advanceTimersByTime(1000);
+      await cacheService.setTokens([makeToken('ddd', { volume24h: 99 }), ...tokens]);
+      return getTokenPage(...args);
+    });
+
+    const first = await page({ limit: 1 });
+    const second = await page({ limit: 1, cursor: first.next_cursor });
+    expect([...first.tokens, ...second.tokens].map(t => t.token_address)).toEqual(['ddd', 'aaa']);
+  });
+
+  it('issues working cursors while serving a snapshot older than the cursor TTL', async () => {
+    jest.useFakeTimers();
+    await cacheService.setTokens(tokens, 30);
+    jest.advanceTimersByTime((config.pagination.cursorTtl + 10) * 1000);
+
+    const first = await page({ limit: 1 });
+    expect(first.stale).toBe(true);
+
+    const second = await page({ limit: 1, cursor: first.next_cursor });
+    expect(second.tokens.map(t => t.token_address)).toEqual(['bbb']);
+  });
+});
+
+describe('TokenController cache states', () => {
+  const tokens = [makeToken('aaa', { volume24h: 20 }), makeToken('bbb', { volume24h: 10 })];
+  let cacheService: CacheService;
+  let getAllTokens: jest.Mock<Promise<TokenData[]>>;
+  let release: (tokens: TokenData[]) => void;
+  let controller: TokenController;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    cacheService = new CacheService(new MemoryCacheBackend(1000));
+    getAllTokens = jest.fn(() => new Promise<TokenData[]>(resolve => {
+      release = resolve;
+    }));
+    controller = new TokenController(cacheService, { getAllTokens } as unknown as DataAggregatorService, new PriceHistoryService(cacheService));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const list = () => respond<PaginatedResponse>(controller.getTokens.bind(controller), { query: tokenListQuery }, { query: { limit: '1' } });
+  // lets a background refresh run to completion
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  it('serves a fresh snapshot as a hit with its age', async () => {
+    await cacheService.setTokens(tokens, 30);
+    jest.advanceTimersByTime(5000);
+
+    const { body, headers } = await list();
+
+    expect(headers).toEqual({ 'X-Cache': 'HIT', Age: '5' });
+    expect(body.tokens.map(t => t.token_address)).toEqual(['aaa']);
+    expect(getAllTokens).not.toHaveBeenCalled();
+  });
+
+  it('waits for one shared refresh on a miss', async () => {
+    const responses = Promise.all([list(), list()]);
+    await settle();
+    release(tokens);
+
+    for (const { body, headers } of await responses) {
+      expect(headers).toEqual({ 'X-Cache': 'MISS', Age: '0' });
+      expect(body.tokens.map(t => t.token_address)).toEqual(['aaa']);
+    }
+    expect(getAllTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves an expired snapshot as stale while one background refresh replaces it', async () => {
+    await cacheService.setTokens(tokens, 30);
+    jest.advanceTimersByTime(40_000);
+
+    const stale = await Promise.all([list(), list()]);
+    for (const { body, headers } of stale) {
+      expect(headers).toEqual({ 'X-Cache': 'STALE', Age: '40' });
+      expect(body).toEqual(expect.objectContaining({ stale: true }));
+      expect(body.tokens.map(t => t.token_address)).toEqual(['aaa']);
+    }
+    expect(getAllTokens).toHaveBeenCalledTimes(1);
+
+    release([makeToken('ccc', { volume24h: 30 }), ...tokens]);
+    await settle();
+
+    const { body, headers } = await list();
+    expect(headers).toEqual({ 'X-Cache': 'HIT', Age: '0' });
+    expect(body.tokens.map(t => t.token_address)).toEqual(['ccc']);
+    expect(getAllTokens).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('TokenController single-token lookups', () => {
+  let cacheService: CacheService;
+  let fetchToken: jest.Mock<Promise<TokenData | null>, [string]>;
+  let controller: TokenController;
+
+  beforeEach(() => {
+    cacheService = new CacheService(new MemoryCacheBackend(1000));
+    fetchToken = jest.fn(async (address: string) => (address === 'KnownMint1111111111111' ? makeToken(address) : null));
+    controller = new TokenController(cacheService, { fetchToken } as unknown as DataAggregatorService, new PriceHistoryService(cacheService));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const lookup = (address: string) => call<TokenData>(controller.getTokenByAddress.bind(controller), { params: tokenAddressParams, query: tokenDetailQuery }, { params: { address } });
+
+  it('caches an upstream hit under the token key, keeping its casing', async () => {
+    expect((await lookup('KnownMint1111111111111')).token_address).toBe('KnownMint1111111111111');
+    expect((await lookup('KnownMint1111111111111')).token_address).toBe('KnownMint1111111111111');
+
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers an unknown address until the negative entry expires', async () => {
+    jest.useFakeTimers();
+    const notFound = expect.objectContaining({ code: 'TOKEN_NOT_FOUND' });
+
+    await expect(Promise.all([lookup('UnknownMint11111111111'), lookup('unknownmint11111111111')])).rejects.toEqual(notFound);
+    await expect(lookup('UnknownMint11111111111')).rejects.toEqual(notFound);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(config.aggregation.lookupNegativeTtl * 1000 + 1);
+    await expect(lookup('UnknownMint11111111111')).rejects.toEqual(notFound);
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('TokenController batch lookups', () => {
+  // `known` lists the addresses the provider has; its budget is `points` requests per minute
+  const lookupProvider = (name: string, known: string[], points: number) => {
+    const fetchToken = jest.fn(async (_client: AxiosInstance, address: string) => (known.includes(address) ? [address] : []));
+    const provider: TokenSourceProvider<string> = {
+      name,
+      baseUrl: 'http://localhost',
+      rateLimit: { points, duration: 60 },
+      retry: { attempts: 3, baseDelay: 1 },
+      fetch: async () => known,
+      fetchToken,
+      map: records => records.map(address => makeToken(address)),
+    };
+    return { provider, fetchToken };
+  };
+
+  const setup = (...providers: TokenSourceProvider[]) => {
+    const registry = new ProviderRegistry();
+    providers.forEach(provider => registry.register(provider));
+    const cacheService = new CacheService(new MemoryCacheBackend(1000));
+    const aggregator = new DataAggregatorService(undefined, registry, providers.map(provider => provider.name));
+    const controller = new TokenController(cacheService, aggregator, new PriceHistoryService(cacheService));
+    const batch = (addresses: string[]) => call<BatchTokenResponse>(controller.getTokensBatch.bind(controller), { body: tokenBatchBody }, { body: { addresses } });
+    return { cacheService, aggregator, batch };
+  };
+
+  it('splits found and not_found, and remembers only conclusive misses', async () => {
+    const dex = lookupProvider('dex', ['knownaddress00000000001'], 100);
+    const gecko = lookupProvider('gecko', [], 100);
+    const { cacheService, batch } = setup(dex.provider, gecko.provider);
+
+    const response = await batch(['knownaddress00000000001', 'unknownaddress000000001']);
+
+    expect(response.tokens.map(t => t.token_address)).toEqual(['knownaddress00000000001']);
+    expect(response.missing).toEqual([{ address: 'unknownaddress000000001', reason: 'not_found' }]);
+    expect(await cacheService.getKey('token:missing:unknownaddress000000001')).toBe(true);
+  });
+
+  it('reports rate_limited without retrying or negative-caching once a provider is out of on-demand budget', async () => {
+    // 5 points, 1 kept for ingestion: 4 lookups fit
+    const dex = lookupProvider('dex', [], 5);
+    const gecko = lookupProvider('gecko', [], 100);
+    const { cacheService, aggregator, batch } = setup(dex.provider, gecko.provider);
+    const addresses = Array.from({ length: 6 }, (_, i) => `unknownaddress00000000${i}`);
+
+    const response = await batch(addresses);
+    const reasons = response.missing.map((miss: { reason: string }) => miss.reason);
+
+    expect(reasons.filter((reason: string) => reason === 'not_found')).toHaveLength(4);
+    expect(reasons.filter((reason: string) => reason === 'rate_limited')).toHaveLength(2);
+    expect(dex.fetchToken).toHaveBeenCalledTimes(4);
+    for (const { address, reason } of response.missing) {
+      expect(await cacheService.getKey(`token:missing:${address}`)).toBe(reason === 'not_found' ? true : null);
+    }
+
+    // the reserve is still there for scheduled ingestion
+    await expect(aggregator.fetchFromProvider(dex.provider)).resolves.toEqual([]);
+  });
+});
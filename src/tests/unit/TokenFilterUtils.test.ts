@@ -0,0 +1,91 @@
+import Joi from 'joi';
+import { tokenFilterSchema } from '../../schemas';
+import { TokenData } from '../../types';
+import { mapDexScreenerToken } from '../../utils/services/DataAggregratorUtils';
+import { applyFilters, parseFilterOptions, priceChangeFor } from '../../utils/services/TokenFilterUtils';
+import { makeToken } from '../helpers/tokens';
+
+const token = (address: string, fields: Partial<TokenData> = {}) =>
+  makeToken(address, { volume24h: 100, marketCap: 1000, dex: 'raydium', ...fields });
+
+// parses the query as the route does, after validation
+const order = (tokens: TokenData[], query: Record<string, unknown>) =>
+  applyFilters(tokens, parseFilterOptions(Joi.attempt(query, tokenFilterSchema))).map(t => t.token_address);
+
+describe('token sorting', () => {
+  const tokens = [
+    token('a', { volume24h: 100, marketCap: 3000 }),
+    token('b', { volume24h: 300, marketCap: 1000 }),
+    token('c', { volume24h: 100, marketCap: 2000 }),
+    token('d', { volume24h: 0, marketCap: 5000 }),
+  ];
+
+  it('defaults to volume descending, unreported volume last, ties by address', () => {
+    expect(order(tokens, {})).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('applies every key of a multi-key sort in turn', () => {
+    expect(order(tokens, { sort: '-volume24h,marketCap' })).toEqual(['b', 'c', 'a', 'd']);
+    expect(order(tokens, { sort: '-volume24h,-marketCap' })).toEqual(['b', 'a', 'c', 'd']);
+    expect(order(tokens, { sort: 'volume24h' })).toEqual(['a', 'c', 'b', 'd']);
+  });
+
+  it('keeps the legacy sort_by ascending default and honours sort_order', () => {
+    expect(order(tokens, { sort_by: 'market_cap' })).toEqual(['b', 'c', 'a', 'd']);
+    expect(order(tokens, { sort_by: 'market_cap', sort_order: 'desc' })).toEqual(['d', 'a', 'c', 'b']);
+  });
+
+  it('sorts price_change by the requested window, percentages first from our own history', () => {
+    const changing = [
+      token('a', { priceChange1h: 5, priceChanges: { '1h': 1 } }),
+      token('b', { priceChange1h: 3 }),
+      token('c', { priceChangePercentage24h: 50 }),
+    ];
+    expect(order(changing, { sort: '-price_change', time_period: '1h' })).toEqual(['b', 'a']);
+    expect(order(changing, { sort: '-price_change' })).toEqual(['c', 'b', 'a']);
+  });
+
+  it('treats a 0% change as a real value in every window', () => {
+    const flat = [
+      token('a', { priceChangePercentage24h: 0, priceChange1h: 0 }),
+      token('b', { priceChangePercentage24h: -5, priceChange1h: -5 }),
+      token('c', { priceChangePercentage24h: 5, priceChange1h: 5 }),
+      token('d'),
+    ];
+    for (const time_period of ['1h', '24h']) {
+      expect(order(flat, { sort: '-price_change', time_period })).toEqual(['c', 'a', 'b']);
+      expect(order(flat, { min_change: 0, time_period })).toEqual(['c', 'a']);
+    }
+    expect(order(flat, { sort: '-price_change' })).toEqual(['c', 'a', 'b', 'd']);
+    expect(priceChangeFor(flat[0], '24h')).toBe(0);
+    expect(priceChangeFor(token('e', { priceChanges: { '24h': 0 }, priceChangePercentage24h: 7 }), '24h')).toBe(0);
+  });
+
+  it('rejects sort combined with sort_by or sort_order', () => {
+    expect(tokenFilterSchema.validate({ sort: '-volume24h', sort_by: 'volume' }).error).toBeDefined();
+    expect(tokenFilterSchema.validate({ sort: '-volume24h', sort_order: 'desc' }).error).toBeDefined();
+    expect(tokenFilterSchema.validate({ sort_by: 'volume', sort_order: 'desc' }).error).toBeUndefined();
+  });
+});
+
+describe('price change units', () => {
+  const pair = (priceUsd: string, h24: number) => mapDexScreenerToken({
+    baseToken: { address: 'ABC', name: 'Abc', symbol: 'ABC' },
+    priceUsd,
+    priceChange: { h1: 2, h24 },
+  });
+
+  it('keeps percentages as reported and derives the absolute 24h move in USD', () => {
+    const mapped = pair('2', 100);
+    expect(mapped.priceChangePercentage24h).toBe(100);
+    expect(mapped.priceChange24h).toBe(1);
+    expect(mapped.priceChange1h).toBe(2);
+    expect(priceChangeFor(mapped, '24h')).toBe(100);
+  });
+
+  it('leaves the absolute move unreported at -100% or below', () => {
+    expect(pair('0.5', -100).priceChange24h).toBe(0);
+    expect(pair('0.5', -150).priceChange24h).toBe(0);
+    expect(pair('1', -50).priceChange24h).toBe(-1);
+  });
+});
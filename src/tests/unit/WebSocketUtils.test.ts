@@ -0,0 +1,54 @@
+import { TokenData } from '../../types';
+import { diffFeedRanking, diffSnapshots, isEmptyDelta } from '../../utils/services/WebSocketUtils';
+import { makeToken } from '../helpers/tokens';
+
+const snapshot = (...tokens: TokenData[]) => new Map(tokens.map(token => [token.token_address.toLowerCase(), token]));
+
+describe('diffSnapshots', () => {
+  it('patches only the fields that changed', () => {
+    const before = snapshot(makeToken('aaa', { price: 1, volume24h: 10, dex: 'raydium' }));
+    const after = snapshot(makeToken('aaa', { price: 2, volume24h: 10, dex: 'raydium' }));
+
+    expect(diffSnapshots(before, after)).toEqual({ updated: { aaa: { price: 2 } }, added: [], removed: [] });
+  });
+
+  it('ignores lastUpdated and compares nested values by content', () => {
+    const pairs = [{ dex: 'raydium', pairAddress: 'p', url: '', price: 1, liquidity: 5, volume24h: 1, transaction_count: 1, source: 'dexscreener' }];
+    const before = snapshot(makeToken('aaa', { lastUpdated: '2026-10-18T10:00:00.000Z', pairs }));
+    const after = snapshot(makeToken('aaa', { lastUpdated: '2026-10-18T10:01:00.000Z', pairs: pairs.map(pair => ({ ...pair })) }));
+
+    const delta = diffSnapshots(before, after);
+    expect(delta.updated).toEqual({});
+    expect(isEmptyDelta(delta)).toBe(true);
+  });
+
+  it('sends null for fields the new snapshot no longer has', () => {
+    const before = snapshot(makeToken('aaa', { priceChanges: { '1h': 2 } }));
+    const after = snapshot(makeToken('aaa'));
+
+    expect(diffSnapshots(before, after).updated).toEqual({ aaa: { priceChanges: null } });
+  });
+
+  it('lists tokens that entered and left the snapshot', () => {
+    const kept = makeToken('aaa');
+    const entered = makeToken('ccc');
+    const delta = diffSnapshots(snapshot(kept, makeToken('bbb')), snapshot(kept, entered));
+
+    expect(delta).toEqual({ updated: {}, added: [entered], removed: ['bbb'] });
+    expect(isEmptyDelta(delta)).toBe(false);
+  });
+});
+
+describe('diffFeedRanking', () => {
+  it('reports entries, exits and rank moves between two views', () => {
+    expect(diffFeedRanking(['aaa', 'bbb', 'ccc'], ['bbb', 'aaa', 'ddd'])).toEqual({
+      entries: [{ address: 'ddd', rank: 3 }],
+      exits: ['ccc'],
+      rank_changes: [{ address: 'bbb', from: 2, to: 1 }, { address: 'aaa', from: 1, to: 2 }],
+    });
+  });
+
+  it('is empty for an unchanged view', () => {
+    expect(diffFeedRanking(['aaa', 'bbb'], ['aaa', 'bbb'])).toEqual({ entries: [], exits: [], rank_changes: [] });
+  });
+});
@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express';
+import { ownerOf, requireOwner } from '../../middleware/auth';
+import { ApiError } from '../../utils/errors';
+
+const request = (headers: Record<string, string>) =>
+  ({ get: (name: string) => headers[name.toLowerCase()] }) as unknown as Request;
+
+describe('requireOwner', () => {
+  const run = (headers: Record<string, string>) => {
+    const res = { locals: {} } as Response;
+    const next = jest.fn() as jest.MockedFunction<NextFunction>;
+    requireOwner(request(headers), res, next);
+    return { res, error: next.mock.calls[0][0] };
+  };
+
+  it('resolves the owner from a bearer token or X-API-Key', () => {
+    const bearer = run({ authorization: 'Bearer key-alice' });
+    expect(bearer.error).toBeUndefined();
+    expect(ownerOf(bearer.res)).toBe('alice');
+
+    expect(ownerOf(run({ 'x-api-key': 'key-bob' }).res)).toBe('bob');
+  });
+
+  it('rejects missing and unknown keys with 401', () => {
+    for (const headers of [{} as Record<string, string>, { 'x-api-key': 'nope' }, { authorization: 'Basic key-alice' }]) {
+      const { error } = run(headers);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 401, code: 'UNAUTHORIZED' });
+    }
+  });
+});
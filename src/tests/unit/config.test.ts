@@ -0,0 +1,38 @@
+// config is evaluated on import, so each case loads a fresh copy with its own env
+const loadTokenThresholds = (raw: string) => {
+  process.env.ALERT_TOKEN_THRESHOLDS = raw;
+  let thresholds: unknown;
+  const errors: string[] = [];
+  jest.isolateModules(() => {
+    const { logger } = require('../../utils/logger');
+    jest.spyOn(logger, 'error').mockImplementation((message: unknown) => {
+      errors.push(String(message));
+      return logger;
+    });
+    thresholds = require('../../config').config.changeDetection.tokenThresholds;
+  });
+  return { thresholds, errors };
+};
+
+describe('config.changeDetection.tokenThresholds', () => {
+  const original = process.env.ALERT_TOKEN_THRESHOLDS;
+
+  afterEach(() => {
+    process.env.ALERT_TOKEN_THRESHOLDS = original;
+  });
+
+  it('parses overrides keyed by lowercase address', () => {
+    expect(loadTokenThresholds('{"MintA": {"price": 0.2, "liquidity": "high"}}').thresholds).toEqual({ minta: { price: 0.2 } });
+  });
+
+  it('reports malformed JSON instead of throwing on import', () => {
+    const { thresholds, errors } = loadTokenThresholds('{price: 0.2');
+    expect(thresholds).toEqual({});
+    expect(errors).toEqual([expect.stringContaining('ALERT_TOKEN_THRESHOLDS is not valid JSON')]);
+  });
+
+  it('rejects values that are not an object of overrides', () => {
+    expect(loadTokenThresholds('[0.2]')).toEqual({ thresholds: {}, errors: [expect.stringContaining('must be an object')] });
+    expect(loadTokenThresholds('{"mint": 0.2}')).toEqual({ thresholds: {}, errors: [expect.stringContaining('entry for mint')] });
+  });
+});
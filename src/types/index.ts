@@ -1,3 +1,5 @@
+import { AxiosInstance } from 'axios';
+
 export interface TokenData {
   // Basic Identification
   token_address: string;
@@ -6,10 +8,10 @@ export interface TokenData {
   
   // Price Data
   price: number;  // Changed from price_sol to price (in USD)
-  priceChange1h: number;
-  priceChange6h: number;
-  priceChange24h: number;
-  priceChangePercentage24h: number;
+  priceChange1h: number; // %
+  priceChange6h: number; // %
+  priceChange24h: number; // absolute, USD
+  priceChangePercentage24h: number; // %
   
   // Market Data
   marketCap: number;  // Changed from market_cap_sol
@@ -26,6 +28,7 @@ export interface TokenData {
   high_24h: number;
   low_24h: number;
   transaction_count: number;
+  transactionCounts?: TransactionWindows; // buys + sells per window
   
   // Historical Data
   ath: number;
@@ -44,39 +47,516 @@ export interface TokenData {
   source: string[];   // Keep as array
   lastUpdated: string; // Changed from number to string
   is_merged?: boolean;
+  mergeConfidence?: number; // 0-1, how sure we are the sources describe the same token
+  addressResolution?: 'platform' | 'fuzzy'; // how a CoinGecko slug was mapped to a mint
+  pairCreatedAt?: string;
+  pairs?: TokenPair[]; // every pool seen for this token, deepest first
+  priceChanges?: Partial<Record<ChangeWindow, number>>; // % change computed from our own history
+  provenance?: Partial<Record<MergeableField, FieldProvenance>>;
+  divergentFields?: MergeableField[];
+}
+
+// Fields chosen per source by the merge policy; identity and metadata fields are not
+export type MergeableField = Exclude<
+  keyof TokenData,
+  'token_address' | 'source' | 'lastUpdated' | 'is_merged' | 'mergeConfidence'
+  | 'addressResolution' | 'provenance' | 'divergentFields' | 'pairs' | 'priceChanges'
+>;
+
+export type ChangeWindow = '5m' | '15m' | '1h' | '6h' | '24h' | '7d';
+
+export type MergeStrategy =
+  | { strategy: 'priority'; sources: string[] }
+  | { strategy: 'freshest' }
+  | { strategy: 'median' };
+
+export interface MergePolicy {
+  default: MergeStrategy;
+  fields: Partial<Record<MergeableField, MergeStrategy>>;
+  divergenceThreshold: number; // relative spread, 0.05 = 5%
+}
+
+export interface FieldProvenance {
+  source: string;                  // winning source, or 'median'
+  values: Record<string, unknown>; // value reported by each source
+  divergence?: number;             // (max - min) / median for numeric fields
+}
+
+export interface TokenPair {
+  dex: string;
+  pairAddress: string;
+  url: string;
+  price: number;
+  liquidity: number;
+  volume24h: number;
+  transaction_count: number;
+  source: string;
+}
+
+export interface TransactionWindows {
+  m5: number;
+  h1: number;
+  h6: number;
+  h24: number;
 }
 
 // Keep other interfaces the same...
 export interface PaginatedResponse {
-  tokens: TokenData[];
+  tokens: Array<Partial<TokenData>>; // projected when the request sets fields=
   next_cursor?: string;
   has_more: boolean;
   total_count: number;
   timestamp: number;
+  stale?: boolean; // served past its TTL while a refresh runs
+}
+
+// POST /api/tokens/batch; misses say why so callers know whether to retry
+export type BatchMissReason = 'not_found' | 'rate_limited' | 'lookup_failed';
+
+export interface BatchTokenResponse {
+  tokens: Array<Partial<TokenData>>; // in request order, projected when fields= is set
+  missing: Array<{ address: string; reason: BatchMissReason }>;
+  timestamp: number;
+}
+
+// Compact per-token record kept alongside the snapshot for /api/tokens/search
+export interface SearchIndexEntry {
+  address: string; // lowercased
+  ticker: string; // uppercased
+  name: string; // lowercased
+  volume: number;
+}
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_JSON'
+  | 'INVALID_CURSOR'
+  | 'INVALID_FILTER'
+  | 'TOKEN_NOT_FOUND'
+  | 'ALERT_NOT_FOUND'
+  | 'ALERT_LIMIT_REACHED'
+  | 'QUEUE_DISABLED'
+  | 'UNAUTHORIZED'
+  | 'ROUTE_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+// Body of every non-2xx REST response
+export interface ErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Array<{ field: string; message: string }>;
+  };
+}
+
+export interface CachedSnapshot {
+  tokens: TokenData[];
+  cachedAt: number;
+  ageSeconds: number;
+  stale: boolean;
+}
+
+export type SortField = 'volume' | 'price_change' | 'market_cap' | 'liquidity' | 'transaction_count';
+
+// Filter params as tokenFilterSchema validates and coerces them (REST list and WebSocket feeds)
+export interface TokenFilterQuery {
+  time_period?: ChangeWindow;
+  sort_by?: SortField;
+  sort_order?: 'asc' | 'desc';
+  sort?: string;
+  min_liquidity?: number;
+  min_volume?: number;
+  protocol?: string;
+  dex?: string; // alias of protocol
+  min_change?: number;
+  max_change?: number;
+  filter?: string;
+  limit?: number;
+}
+
+export interface TokenListQuery extends TokenFilterQuery {
+  cursor?: string;
+  fields?: string;
+}
+
+export interface TokenSearchQuery {
+  q: string;
+  limit?: number;
+  fields?: string;
+}
+
+export interface TokenBatchBody {
+  addresses: string[];
+  fields?: string;
 }
 
 export interface FilterOptions {
-  time_period?: '1h' | '24h' | '7d';
-  sort_by?: 'volume' | 'price_change' | 'market_cap' | 'liquidity' | 'transaction_count';
+  time_period?: ChangeWindow;
+  sort_by?: SortField;
   sort_order?: 'asc' | 'desc';
+  sort?: SortKey[]; // resolved from `sort`, or from sort_by/sort_order
   min_liquidity?: number;
   min_volume?: number;
   protocol?: string;
+  min_change?: number; // % price change over time_period (default 24h)
+  max_change?: number;
+  filter?: string; // expression, see FilterExpressionUtils
   limit?: number;
   cursor?: string;
 }
 
+export interface SortKey {
+  field: string; // numeric TokenData field or change_<window>
+  descending: boolean;
+}
+
 export interface WebSocketMessage {
-  type: 'initial_data' | 'price_update' | 'volume_spike' | 'market_cap_update' | 'liquidity_update' | 'token_update' | 'batch_update';
+  type: 'initial_data' | 'price_update' | 'volume_spike' | 'market_cap_update' | 'liquidity_update' | 'token_update' | 'batch_update' | 'token_delta' | 'snapshot' | 'feed_update' | 'alert_triggered' | 'identify';
   data: any;
   timestamp: number;
 }
 
+// Patch between consecutive snapshots; clients apply it only if prev_seq matches
+// the last seq they saw, otherwise they emit `resync` for a fresh snapshot.
+export interface TokenDelta {
+  seq: number;
+  prev_seq: number;
+  updated: Record<string, Partial<TokenData>>; // address -> changed fields (null = field removed)
+  added: TokenData[];
+  removed: string[];
+}
+
+// Per-token change for clients subscribed to that token; version gaps mean re-subscribe
+export interface TokenUpdate {
+  address: string;
+  version: number;
+  prev_version: number;
+  patch?: Partial<TokenData>;
+  token?: Partial<TokenData>; // token newly present in the snapshot, projected to the client's fields
+  removed?: boolean;
+}
+
+export interface SubscriptionAck {
+  subscribed: string[];
+  rejected: string[]; // over the per-client limit, or every requested token when `error` is set
+  limit: number;
+  tokens: Array<Partial<TokenData>>;
+  versions: Record<string, number>;
+  error?: string; // the request was refused and no subscription changed
+}
+
+export interface FeedRankChange {
+  address: string;
+  from: number;
+  to: number;
+}
+
+// Changes to a client's filtered live view, evaluated on every refresh
+export interface FeedUpdate {
+  feed_id: string;
+  entries: Array<{ address: string; rank: number; token: Partial<TokenData> }>;
+  exits: string[];
+  rank_changes: FeedRankChange[];
+  updated: Record<string, Partial<TokenData>>; // patches for tokens that stayed in the view
+}
+
+export interface TokenSnapshot {
+  seq: number;
+  tokens: TokenData[];
+}
+
+export type ChangeMetric = 'price' | 'volume' | 'market_cap' | 'liquidity';
+
+// Relative thresholds (0.05 = 5%); volumeSpike is a multiple of the previous volume
+export interface ChangeThresholds {
+  price: number;
+  volumeSpike: number;
+  marketCap: number;
+  liquidity: number;
+}
+
+export interface SignificantChange {
+  metric: ChangeMetric;
+  token: TokenData;
+  previous: number;
+  current: number;
+  change_percent: number;
+}
+
+export type AlertCondition = 'price_above' | 'price_below' | 'change_1h_above' | 'change_1h_below';
+
+// User-registered rule; fires when its condition goes from false to true
+export interface AlertRule {
+  id: string;
+  owner_id: string;
+  token_address: string;
+  condition: AlertCondition;
+  threshold: number;
+  webhook: boolean;
+  active: boolean;
+  last_state: boolean;
+  created_at: number;
+  last_fired_at: number | null;
+}
+
+export interface FiredAlert {
+  id: string;
+  rule_id: string;
+  owner_id: string;
+  token_address: string;
+  token_ticker: string;
+  condition: AlertCondition;
+  threshold: number;
+  value: number;
+  fired_at: number;
+  webhook_status?: 'delivered' | 'failed' | 'skipped';
+}
+
+// One stored observation of a token, compact keys to keep the sorted sets small
+export interface PriceSample {
+  t: number; // ms timestamp, aligned to its history tier's interval
+  p: number; // price
+  v: number; // rolling 24h volume
+  l: number; // liquidity
+  m: number; // market cap
+}
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export interface CandlesQuery {
+  interval: CandleInterval;
+  from?: number;
+  to?: number;
+}
+
+export interface Candle {
+  time: number; // bucket open, ms
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  liquidity: number;
+  market_cap: number;
+  samples: number;
+}
+
 export enum RateLimiterApi {
   DEX_SCREENER="dexscreener",
   GECKO_TERMINAL="geckoterminal",
+  COIN_GECKO="coingecko",
+}
+
+// Upstream token source. Providers are registered in src/providers and
+// enabled per deployment through config.aggregation.providers. R is the raw
+// record type a provider's endpoints return and its map() accepts.
+export interface TokenSourceProvider<R = unknown> {
+  name: string;
+  baseUrl: string;
+  rateLimit: { points: number; duration: number }; // points per duration (seconds)
+  retry: { attempts: number; baseDelay?: number };
+  refreshInterval?: number; // ms, defaults to config.aggregation.updateInterval
+  fetchCost?: number; // HTTP requests made by one fetch(), charged against rateLimit (default 1)
+  fetch(client: AxiosInstance): Promise<R[]>;
+  // optional targeted lookup for one address; records go through the same map()
+  fetchToken?(client: AxiosInstance, address: string): Promise<R[]>;
+  // optional free-text search, used when the local search index has no match
+  search?(client: AxiosInstance, query: string): Promise<R[]>;
+  map(records: R[]): TokenData[];
+}
+
+// Raw upstream records, limited to the fields the mappers read
+
+export interface BuySellCounts {
+  buys?: number;
+  sells?: number;
+}
+
+type WindowCounts = Partial<Record<'m5' | 'h1' | 'h6' | 'h24', BuySellCounts>>;
+
+export interface DexScreenerPair {
+  pairAddress?: string;
+  dexId?: string;
+  url?: string;
+  priceUsd?: string;
+  baseToken?: { address?: string; name?: string; symbol?: string };
+  priceChange?: { h1?: number; h6?: number; h24?: number };
+  volume?: { h24?: number };
+  liquidity?: { usd?: number };
+  fdv?: number;
+  txns?: WindowCounts;
+  info?: { imageUrl?: string };
+  pairCreatedAt?: number;
+}
+
+export interface CoinGeckoMarket {
+  id: string;
+  symbol?: string;
+  name?: string;
+  image?: string;
+  current_price?: number;
+  market_cap?: number;
+  market_cap_rank?: number | null;
+  total_volume?: number;
+  high_24h?: number;
+  low_24h?: number;
+  price_change_24h?: number;
+  price_change_percentage_24h?: number;
+  price_change_percentage_1h_in_currency?: number;
+  market_cap_change_24h?: number;
+  market_cap_change_percentage_24h?: number;
+  circulating_supply?: number;
+  total_supply?: number | null;
+  ath?: number;
+  ath_change_percentage?: number;
+  ath_date?: string;
+  atl?: number;
+  atl_change_percentage?: number;
+  atl_date?: string;
+  roi?: number | null;
+  last_updated?: string;
+}
+
+// /coins/list?include_platform=true
+export interface CoinGeckoListEntry {
+  id: string;
+  platforms?: Record<string, string | null>;
+}
+
+// GeckoTerminal speaks JSON:API; numbers arrive as strings
+export interface GeckoTerminalPool {
+  id?: string;
+  attributes?: {
+    address?: string;
+    base_token_price_usd?: string;
+    price_change_percentage?: { h1?: string; h6?: string; h24?: string };
+    market_cap_usd?: string | null;
+    fdv_usd?: string;
+    volume_usd?: { h24?: string };
+    reserve_in_usd?: string;
+    transactions?: WindowCounts;
+    pool_created_at?: string;
+  };
+  relationships?: {
+    dex?: { data?: { id: string } };
+    base_token?: { data?: { id: string } };
+  };
+}
+
+// entry of a response's `included` list; only type 'token' is used
+export interface GeckoTerminalIncluded {
+  id: string;
+  type: string;
+  attributes?: { address?: string; name?: string; symbol?: string; image_url?: string };
+}
+
+export interface GeckoTerminalPoolsResponse {
+  data?: GeckoTerminalPool[];
+  included?: GeckoTerminalIncluded[];
+}
+
+export interface GeckoTerminalPoolRecord {
+  pool: GeckoTerminalPool;
+  baseToken?: GeckoTerminalIncluded;
+}
+
+export interface ProviderFetchResult {
+  provider: string;
+  status: 'fulfilled' | 'rejected';
+  tokenCount: number;
+  durationMs: number;
+  error?: string;
+  fetchedAt: number;
+}
+
+export type JobOutcome = 'success' | 'failure' | 'skipped_overlap';
+
+export interface JobStatus {
+  name: string;
+  interval: number;
+  running: boolean;
+  runCount: number;
+  lastRunAt: number | null;
+  lastDurationMs: number | null;
+  lastOutcome: JobOutcome | null;
+  lastError?: string;
+  nextRunAt: number | null;
+}
+
+export interface SchedulerStatus {
+  instanceId: string;
+  role: 'leader' | 'follower' | 'standalone';
+  started: boolean;
+  jobs: JobStatus[];
+}
+
+// broadcast is not a queue stage: every instance runs it for its own sockets
+export type IngestionStage = 'fetch' | 'merge' | 'persist' | 'alerts';
+
+export interface DeadLetterEntry {
+  stage: IngestionStage;
+  data: { provider?: string; batchId?: string };
+  error: string;
+  attemptsMade: number;
+  failedAt: number;
+}
+
+export interface QueueStatus {
+  stages: Array<{ stage: IngestionStage; waiting: number; active: number; completed: number; failed: number; delayed: number }>;
+  deadLetter: number;
+}
+
+export interface ProviderSnapshot {
+  tokens: TokenData[];
+  fetchedAt: number;
+}
+
+export interface AggregationResult {
+  tokens: TokenData[];
+  providers: ProviderFetchResult[];
 }
 export interface CacheConfig {
   ttl: number;
   key: string;
-}
\ No newline at end of file
+}
+export type RedisMode = 'standalone' | 'sentinel' | 'cluster';
+
+// Write commands a backend applies together; Redis runs them in one MULTI
+export type CacheWrite =
+  | { op: 'set'; key: string; value: string; ttl?: number }
+  | { op: 'del'; key: string }
+  | { op: 'hset'; key: string; fields: Record<string, string> }
+  | { op: 'zadd'; key: string; score: number; member: string }
+  | { op: 'zremScore'; key: string; score: number }
+  | { op: 'ztrim'; key: string; minScore: number } // drop members scored below minScore
+  | { op: 'lpush'; key: string; value: string; maxLength: number }
+  | { op: 'expire'; key: string; ttl: number };
+
+// Storage behind CacheService. Implementations live in src/cache; values are
+// already serialized, so backends only deal in strings.
+export interface CacheBackend {
+  name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isReady(): boolean;
+  ping(): Promise<boolean>;
+  exec(writes: CacheWrite[]): Promise<void>;
+  get(key: string): Promise<string | null>;
+  setIfAbsent(key: string, value: string, ttl: number): Promise<boolean>;
+  setIfPresent(key: string, value: string): Promise<boolean>; // keeps the key's TTL
+  hGetAll(key: string): Promise<Record<string, string>>;
+  zCard(key: string): Promise<number>;
+  zRange(key: string, start: number, stop: number, reverse: boolean): Promise<string[]>;
+  zRangeByScore(key: string, min: number, max: number): Promise<string[]>;
+  zLatestAtOrBefore(key: string, scores: number[]): Promise<Array<string | null>>; // one result per score
+  sAdd(key: string, member: string): Promise<void>;
+  sRem(key: string, member: string): Promise<void>;
+  sMembers(key: string): Promise<string[]>;
+  lRange(key: string, start: number, stop: number): Promise<string[]>;
+  acquireLock(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string, owner: string): Promise<void>;
+  // fire-and-forget messages to every instance subscribed to the channel, the publisher included
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+}
@@ -0,0 +1,13 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+
+// keys are looked up by digest so a wrong key can't be found by timing comparisons
+const digest = (apiKey: string) => createHash('sha256').update(apiKey).digest('hex');
+
+const owners = new Map(Object.entries(config.alerts.apiKeys).map(([apiKey, ownerId]) => [digest(apiKey), ownerId]));
+
+// Alert owner an API key belongs to, or null for a missing or unknown key
+export function ownerForApiKey(apiKey: unknown): string | null {
+  if (typeof apiKey !== 'string' || !apiKey) return null;
+  return owners.get(digest(apiKey)) ?? null;
+}
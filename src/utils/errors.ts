@@ -0,0 +1,20 @@
+import { ErrorCode, ErrorResponse } from '../types';
+
+// Errors that map onto a client-facing status and code; anything else becomes a 500
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly details?: ErrorResponse['error']['details'];
+
+  constructor(status: number, code: ErrorCode, message: string, details?: ErrorResponse['error']['details']) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function errorBody(code: ErrorCode, message: string, details?: ErrorResponse['error']['details']): ErrorResponse {
+  return { error: details ? { code, message, details } : { code, message } };
+}
@@ -1,34 +1,47 @@
 // src/utils/rateLimiter.ts
-import { RateLimiterMemory } from 'rate-limiter-flexible';
-import { RateLimiterApi } from '../types';
+import { RateLimiterMemory, RateLimiterRes } from 'rate-limiter-flexible';
+import { ApiError } from './errors';
+
+// An upstream's budget can't cover a request; waiting, not retrying, is the remedy
+export class RateLimitError extends ApiError {
+  constructor(apiName: string, msBeforeNext: number) {
+    super(429, 'RATE_LIMITED', `Rate limit exceeded for ${apiName}. Try again in ${Math.ceil(msBeforeNext / 1000)} seconds`);
+    this.name = 'RateLimitError';
+  }
+}
 
 export class APIRateLimiter {
   private limiters: Map<string, RateLimiterMemory> = new Map();
 
-  constructor() {
-    // Initialize rate limiters for different APIs
-    this.limiters.set(RateLimiterApi.DEX_SCREENER, new RateLimiterMemory({
-      points: 300,
-      duration: 60 // 300 requests per minute
-    }));
-    
-    this.limiters.set(RateLimiterApi.GECKO_TERMINAL, new RateLimiterMemory({
-      points: 100,
-      duration: 60
-    }));
+  // Each token source registers its own budget when it is enabled
+  register(apiName: string, points: number, duration: number = 60): void {
+    this.limiters.set(apiName, new RateLimiterMemory({ points, duration }));
   }
 
-  async checkLimit(apiName: string): Promise<void> {
+  has(apiName: string): boolean {
+    return this.limiters.has(apiName);
+  }
+
+  // Consume `points` (one per HTTP request) or throw RateLimitError if the budget can't cover
+  // them and still leave `reserve` points. Checking and spending is one consume, and refused
+  // points are handed back (the limiter counts them even when it rejects), so concurrent
+  // callers never overspend or eat into the reserve.
+  async checkLimit(apiName: string, points: number = 1, reserve: number = 0): Promise<void> {
     const limiter = this.limiters.get(apiName);
     if (!limiter) {
       throw new Error(`No rate limiter configured for ${apiName}`);
     }
 
+    let res: RateLimiterRes;
     try {
-      await limiter.consume(1);
-    } catch (rejRes: any) {
-      const waitTime = Math.ceil(rejRes.msBeforeNext / 1000);
-      throw new Error(`Rate limit exceeded for ${apiName}. Try again in ${waitTime} seconds`);
+      res = await limiter.consume(apiName, points);
+    } catch (rejRes) {
+      if (!(rejRes instanceof RateLimiterRes)) throw rejRes;
+      res = rejRes;
+    }
+    if (res.consumedPoints > limiter.points - reserve) {
+      await limiter.reward(apiName, points);
+      throw new RateLimitError(apiName, res.msBeforeNext);
     }
   }
 }
@@ -37,7 +50,8 @@ export class ExponentialBackoff {
   static async retry<T>(
     operation: () => Promise<T>,
     maxAttempts: number = 3,
-    baseDelay: number = 1000
+    baseDelay: number = 1000,
+    retryable: (error: Error) => boolean = () => true
   ): Promise<T> {
     let lastError: Error;
 
@@ -47,7 +61,7 @@ export class ExponentialBackoff {
       } catch (error) {
         lastError = error as Error;
         
-        if (attempt === maxAttempts) {
+        if (attempt === maxAttempts || !retryable(lastError)) {
           break;
         }
         const delay = baseDelay * Math.pow(2, attempt - 1);
@@ -0,0 +1,66 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { FilterOptions } from '../../types';
+import { config } from '../../config';
+import { logger } from '../logger';
+import { ApiError } from '../errors';
+
+export class InvalidCursorError extends ApiError {
+  constructor(reason: string) {
+    super(400, 'INVALID_CURSOR', `Invalid cursor: ${reason}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Position in one snapshot of one query: the snapshot version, the sort it was
+// issued for, and the last token the client has seen
+export interface PageCursor {
+  version: number;
+  query: string;
+  lastAddress: string;
+  expiresAt: number;
+}
+
+// without a shared secret, cursors only verify on the instance that issued them
+const secret = config.pagination.cursorSecret || randomBytes(32).toString('hex');
+if (!config.pagination.cursorSecret) {
+  logger.warn('CURSOR_SECRET not set, pagination cursors are signed with a per-process key');
+}
+
+const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+// Sort and filters a cursor is bound to, so it can't be replayed against a different query
+export function cursorQueryKey(filters: FilterOptions): string {
+  const { cursor, limit, ...query } = filters;
+  const entries = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(Object.fromEntries(entries));
+}
+
+export function encodeCursor(version: number, filters: FilterOptions, lastAddress: string): string {
+  const cursor: PageCursor = {
+    version,
+    query: cursorQueryKey(filters),
+    lastAddress: lastAddress.toLowerCase(),
+    expiresAt: Date.now() + config.pagination.cursorTtl * 1000,
+  };
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Verify signature, expiry and query binding; throws InvalidCursorError otherwise
+export function decodeCursor(value: string, filters: FilterOptions): PageCursor {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) throw new InvalidCursorError('malformed');
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new InvalidCursorError('signature mismatch');
+  }
+
+  const cursor: PageCursor = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (cursor.expiresAt < Date.now()) throw new InvalidCursorError('expired');
+  if (cursor.query !== cursorQueryKey(filters)) throw new InvalidCursorError('issued for a different sort or filter');
+  return cursor;
+}
@@ -1,16 +1,57 @@
-import { TokenData } from "../../types";
+import {
+  BuySellCounts,
+  CoinGeckoMarket,
+  DexScreenerPair,
+  FieldProvenance,
+  GeckoTerminalIncluded,
+  GeckoTerminalPool,
+  MergeableField,
+  MergePolicy,
+  MergeStrategy,
+  TokenData,
+  TokenPair,
+  TransactionWindows,
+} from "../../types";
+import { config } from "../../config";
 
-export function mapDexScreenerToken(dsToken: any): TokenData {
-  const base = dsToken.baseToken || {};
+const sumTxns = (window?: BuySellCounts): number => (window?.buys || 0) + (window?.sells || 0);
+
+function transactionWindows(txns?: Partial<Record<keyof TransactionWindows, BuySellCounts>>): TransactionWindows {
   return {
-    token_address: base.address?.toLowerCase() || '',
+    m5: sumTxns(txns?.m5),
+    h1: sumTxns(txns?.h1),
+    h6: sumTxns(txns?.h6),
+    h24: sumTxns(txns?.h24),
+  };
+}
+
+const pairOf = (token: TokenData, pairAddress: string): TokenPair => ({
+  dex: token.dex,
+  pairAddress,
+  url: token.dexUrl,
+  price: token.price,
+  liquidity: token.liquidity,
+  volume24h: token.volume24h,
+  transaction_count: token.transaction_count,
+  source: token.source[0],
+});
+
+// DEX sources only report percentages; derive the absolute USD move CoinGecko reports.
+// At -100% or below there is no previous price to derive it from, so it stays unreported.
+const absoluteChange = (price: number, percent: number): number =>
+  price && percent && percent > -100 ? price - price / (1 + percent / 100) : 0;
+
+export function mapDexScreenerToken(dsToken: DexScreenerPair): TokenData {
+  const base = dsToken.baseToken || {};
+  const token: TokenData = {
+    token_address: base.address || '',
     token_name: base.name || 'Unknown',
     token_ticker: base.symbol || 'UNKNOWN',
-    price: dsToken.priceUsd || 0,
+    price: Number(dsToken.priceUsd) || 0,
     priceChange1h: dsToken.priceChange?.h1 || 0,
     priceChange6h: dsToken.priceChange?.h6 || 0,
-    priceChange24h: dsToken.priceChange?.h24 || 0,
-    priceChangePercentage24h: 0,
+    priceChange24h: absoluteChange(Number(dsToken.priceUsd) || 0, dsToken.priceChange?.h24 || 0),
+    priceChangePercentage24h: dsToken.priceChange?.h24 || 0,
     marketCap: dsToken.fdv || 0,
     marketCapChange24h: 0,
     marketCapChangePercentage24h: 0,
@@ -20,8 +61,8 @@ export function mapDexScreenerToken(dsToken: any): TokenData {
     liquidity: dsToken.liquidity?.usd || 0,
     high_24h: 0,
     low_24h: 0,
-    transaction_count:
-      (dsToken.txns?.h24?.buys || 0) + (dsToken.txns?.h24?.sells || 0),
+    transaction_count: sumTxns(dsToken.txns?.h24),
+    transactionCounts: transactionWindows(dsToken.txns),
     ath: 0,
     athChangePercentage: 0,
     athDate: '',
@@ -34,18 +75,21 @@ export function mapDexScreenerToken(dsToken: any): TokenData {
     image: dsToken.info?.imageUrl || '',
     rank: null,
     source: ['dexscreener'],
-    lastUpdated: dsToken.pairCreatedAt || new Date().toISOString(),
+    lastUpdated: '', // pairs carry no timestamp; stamped with the fetch time by DataAggregatorService
+    pairCreatedAt: dsToken.pairCreatedAt ? new Date(dsToken.pairCreatedAt).toISOString() : undefined,
     is_merged: false,
   };
+  token.pairs = [pairOf(token, dsToken.pairAddress || '')];
+  return token;
 }
 
-export function mapCoinGeckoToken(cg: any): TokenData {
+export function mapCoinGeckoToken(cg: CoinGeckoMarket): TokenData {
   return {
     token_address: cg.id,
     token_name: cg.name || 'Unknown',
     token_ticker: cg.symbol?.toUpperCase() || 'UNKNOWN',
     price: cg.current_price || 0,
-    priceChange1h: 0,
+    priceChange1h: cg.price_change_percentage_1h_in_currency || 0,
     priceChange6h: 0,
     priceChange24h: cg.price_change_24h || 0,
     priceChangePercentage24h: cg.price_change_percentage_24h || 0,
@@ -71,50 +115,267 @@ export function mapCoinGeckoToken(cg: any): TokenData {
     image: cg.image || '',
     rank: cg.market_cap_rank || null,
     source: ['coingecko'],
-    lastUpdated: cg.last_updated || new Date().toISOString(),
+    lastUpdated: cg.last_updated || '',
+    is_merged: false,
+  };
+}
+
+// GeckoTerminal pools use JSON:API; the base token comes from `included`
+export function mapGeckoTerminalPool(pool: GeckoTerminalPool, baseToken?: GeckoTerminalIncluded): TokenData {
+  const attrs = pool.attributes || {};
+  const base = baseToken?.attributes || {};
+  const num = (value: unknown): number => Number(value) || 0;
+
+  const token: TokenData = {
+    token_address: base.address || '',
+    token_name: base.name || 'Unknown',
+    token_ticker: base.symbol?.toUpperCase() || 'UNKNOWN',
+    price: num(attrs.base_token_price_usd),
+    priceChange1h: num(attrs.price_change_percentage?.h1),
+    priceChange6h: num(attrs.price_change_percentage?.h6),
+    priceChange24h: absoluteChange(num(attrs.base_token_price_usd), num(attrs.price_change_percentage?.h24)),
+    priceChangePercentage24h: num(attrs.price_change_percentage?.h24),
+    marketCap: num(attrs.market_cap_usd) || num(attrs.fdv_usd),
+    marketCapChange24h: 0,
+    marketCapChangePercentage24h: 0,
+    volume24h: num(attrs.volume_usd?.h24),
+    circulatingSupply: 0,
+    totalSupply: 0,
+    liquidity: num(attrs.reserve_in_usd),
+    high_24h: 0,
+    low_24h: 0,
+    transaction_count: sumTxns(attrs.transactions?.h24),
+    transactionCounts: transactionWindows(attrs.transactions),
+    ath: 0,
+    athChangePercentage: 0,
+    athDate: '',
+    atl: 0,
+    atlChangePercentage: 0,
+    atlDate: '',
+    roi: null,
+    dex: pool.relationships?.dex?.data?.id || 'Unknown',
+    dexUrl: attrs.address
+      ? `https://www.geckoterminal.com/solana/pools/${attrs.address}`
+      : '',
+    image: base.image_url && base.image_url !== 'missing.png' ? base.image_url : '',
+    rank: null,
+    source: ['geckoterminal'],
+    lastUpdated: '', // pools carry no timestamp; stamped with the fetch time by DataAggregatorService
+    pairCreatedAt: attrs.pool_created_at || undefined,
     is_merged: false,
   };
+  token.pairs = [pairOf(token, attrs.address || '')];
+  return token;
+}
+
+const sumOf = (tokens: TokenData[], pick: (t: TokenData) => number | undefined): number =>
+  tokens.reduce((total, t) => total + (pick(t) || 0), 0);
+
+const byLiquidity = (a: { liquidity: number }, b: { liquidity: number }) => b.liquidity - a.liquidity;
+
+// Collapse the per-pair records one source returned for the same token into a
+// single token: summed volume/liquidity/txns, liquidity-weighted price, and the
+// deepest pair as primary for dex, url and change fields.
+export function combinePairs(tokens: TokenData[]): TokenData[] {
+  const groups = new Map<string, TokenData[]>();
+  for (const token of tokens) {
+    const group = groups.get(token.token_address);
+    if (group) group.push(token);
+    else groups.set(token.token_address, [token]);
+  }
+
+  return Array.from(groups.values()).map((group) => {
+    if (group.length === 1) return group[0];
+
+    const [primary] = [...group].sort(byLiquidity);
+    const liquidity = sumOf(group, t => t.liquidity);
+    const price = liquidity > 0
+      ? sumOf(group, t => t.price * t.liquidity) / liquidity
+      : primary.price;
+    const created = group
+      .map(t => t.pairCreatedAt)
+      .filter((value): value is string => !!value)
+      .sort()[0];
+
+    return {
+      ...primary,
+      price,
+      liquidity,
+      volume24h: sumOf(group, t => t.volume24h),
+      transaction_count: sumOf(group, t => t.transaction_count),
+      transactionCounts: {
+        m5: sumOf(group, t => t.transactionCounts?.m5),
+        h1: sumOf(group, t => t.transactionCounts?.h1),
+        h6: sumOf(group, t => t.transactionCounts?.h6),
+        h24: sumOf(group, t => t.transactionCounts?.h24),
+      },
+      pairCreatedAt: created,
+      pairs: group.flatMap(t => t.pairs || []).sort(byLiquidity),
+    };
+  });
+}
+
+const UNMERGED_FIELDS = new Set<keyof TokenData>([
+  'token_address', 'source', 'lastUpdated', 'is_merged', 'mergeConfidence',
+  'addressResolution', 'provenance', 'divergentFields', 'pairs',
+]);
+
+// zero/empty values are what the mappers emit for missing data
+const hasValue = (value: unknown): boolean =>
+  value !== undefined && value !== null && value !== '' && value !== 0;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((x, y) => x - y);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function divergenceOf(values: unknown[]): number | undefined {
+  const numbers = values.filter((v): v is number => typeof v === 'number' && v !== 0);
+  if (numbers.length < 2) return undefined;
+  const mid = median(numbers);
+  if (mid === 0) return undefined;
+  return Math.abs((Math.max(...numbers) - Math.min(...numbers)) / mid);
+}
+
+const timestampOf = (token: TokenData): number => Date.parse(token.lastUpdated) || 0;
+
+const rank = (order: string[], source: string): number => {
+  const index = order.indexOf(source);
+  return index === -1 ? order.length : index;
+};
+
+function pickValue(
+  strategy: MergeStrategy,
+  candidates: Map<string, TokenData>,
+  field: MergeableField,
+  fallbackOrder: string[]
+): { source: string; value: unknown } | null {
+  const present = Array.from(candidates.entries()).filter(([, t]) => hasValue(t[field]));
+  if (present.length === 0) return null;
+
+  switch (strategy.strategy) {
+    case 'median': {
+      const numbers = present.map(([, t]) => t[field]).filter((v): v is number => typeof v === 'number');
+      if (numbers.length === present.length) {
+        return { source: numbers.length === 1 ? present[0][0] : 'median', value: median(numbers) };
+      }
+      break; // non-numeric field, fall through to priority order
+    }
+    case 'freshest': {
+      // ties (sources fetched in the same cycle) go to the default priority order
+      const ranked = [...present].sort(([a], [b]) => rank(fallbackOrder, a) - rank(fallbackOrder, b));
+      const [source, token] = ranked.reduce((best, entry) =>
+        timestampOf(entry[1]) > timestampOf(best[1]) ? entry : best
+      );
+      return { source, value: token[field] };
+    }
+    case 'priority': {
+      const order = [...strategy.sources, ...fallbackOrder.filter(s => !strategy.sources.includes(s))];
+      const hit = order.map(s => present.find(([source]) => source === s)).find(Boolean);
+      if (hit) return { source: hit[0], value: hit[1][field] };
+      break;
+    }
+  }
+
+  return { source: present[0][0], value: present[0][1][field] };
+}
+
+// union of pools across sources; DexScreener and GeckoTerminal often report the same pool
+function mergePairs(tokens: TokenData[]): TokenPair[] | undefined {
+  const pairs = new Map<string, TokenPair>();
+  for (const pair of tokens.flatMap(t => t.pairs || [])) {
+    const key = pair.pairAddress.toLowerCase() || `${pair.source}:${pair.dex}`;
+    if (!pairs.has(key)) pairs.set(key, pair);
+  }
+  return pairs.size ? Array.from(pairs.values()).sort(byLiquidity) : undefined;
 }
 
-export function mergeTokenData(a: TokenData, b: TokenData): TokenData {
-  const dex = a.source.includes('dexscreener') ? a : b;
-  const cg = a.source.includes('coingecko') ? a : b;
+// Merge every token reported for the same address into one record, choosing each
+// field per the merge policy and recording where it came from.
+export function mergeTokenGroup(tokens: TokenData[], policy: MergePolicy = config.merge): TokenData {
+  if (tokens.length === 1) return tokens[0];
+
+  // one representative per source; the deepest pool wins for repeat reports
+  const candidates = new Map<string, TokenData>();
+  for (const token of tokens) {
+    for (const source of token.source) {
+      const current = candidates.get(source);
+      if (!current || token.liquidity > current.liquidity) candidates.set(source, token);
+    }
+  }
+
+  const defaultOrder = policy.default.strategy === 'priority' ? policy.default.sources : [];
+  const fields = new Set<MergeableField>();
+  for (const token of tokens) {
+    (Object.keys(token) as (keyof TokenData)[])
+      .filter(key => !UNMERGED_FIELDS.has(key))
+      .forEach(key => fields.add(key as MergeableField));
+  }
+
+  const merged: Record<string, unknown> = { ...tokens[0] };
+  const provenance: Partial<Record<MergeableField, FieldProvenance>> = {};
+  const divergentFields: MergeableField[] = [];
+
+  for (const field of fields) {
+    const picked = pickValue(policy.fields[field] || policy.default, candidates, field, defaultOrder);
+    if (!picked) continue;
+    merged[field] = picked.value;
+
+    const values: Record<string, unknown> = {};
+    candidates.forEach((token, source) => {
+      if (hasValue(token[field])) values[source] = token[field];
+    });
+    const divergence = divergenceOf(Object.values(values));
+    provenance[field] = { source: picked.source, values, ...(divergence !== undefined && { divergence }) };
+    if (divergence !== undefined && divergence > policy.divergenceThreshold) {
+      divergentFields.push(field);
+    }
+  }
 
   return {
-    token_address: dex.token_address || cg.token_address,
-    token_name: dex.token_name || cg.token_name,
-    token_ticker: dex.token_ticker || cg.token_ticker,
-    price: dex.price || cg.price,
-    priceChange1h: dex.priceChange1h,
-    priceChange6h: dex.priceChange6h,
-    priceChange24h: cg.priceChange24h || dex.priceChange24h,
-    priceChangePercentage24h: cg.priceChangePercentage24h,
-    marketCap: cg.marketCap || dex.marketCap,
-    marketCapChange24h: cg.marketCapChange24h,
-    marketCapChangePercentage24h: cg.marketCapChangePercentage24h,
-    volume24h: dex.volume24h || cg.volume24h,
-    circulatingSupply: cg.circulatingSupply,
-    totalSupply: cg.totalSupply,
-    liquidity: dex.liquidity,
-    high_24h: cg.high_24h,
-    low_24h: cg.low_24h,
-    transaction_count: dex.transaction_count,
-    ath: cg.ath,
-    athChangePercentage: cg.athChangePercentage,
-    athDate: cg.athDate,
-    atl: cg.atl,
-    atlChangePercentage: cg.atlChangePercentage,
-    atlDate: cg.atlDate,
-    roi: cg.roi,
-    dex: dex.dex,
-    dexUrl: dex.dexUrl,
-    image: dex.image || cg.image,
-    rank: cg.rank,
-    source: [...new Set([...a.source, ...b.source])],
-    lastUpdated: new Date().toISOString(),
-    is_merged: true,
+    ...(merged as unknown as TokenData),
+    token_address: tokens[0].token_address,
+    source: [...new Set(tokens.flatMap(t => t.source))],
+    // newest observation among the sources, not the merge time
+    lastUpdated: tokens.reduce((newest, t) => (timestampOf(t) > timestampOf(newest) ? t : newest)).lastUpdated,
+    is_merged: candidates.size > 1,
+    mergeConfidence: Math.min(...tokens.map(t => t.mergeConfidence ?? 1)),
+    addressResolution: tokens.map(t => t.addressResolution).find(Boolean),
+    pairs: mergePairs(tokens),
+    provenance,
+    divergentFields,
   };
 }
 
 export const validToken = (t: TokenData) =>
   !!t && t.token_address.length > 0 && t.price > 0;
+
+
+// bigram Dice coefficient, 0 (no overlap) to 1 (identical)
+export function nameSimilarity(a: string, b: string): number {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const x = normalize(a);
+  const y = normalize(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const gram = x.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const gram = y.slice(i, i + 2);
+    const count = bigrams.get(gram) || 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (x.length + y.length - 2);
+}
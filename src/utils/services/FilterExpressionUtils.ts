@@ -0,0 +1,283 @@
+import { ChangeWindow, TokenData } from '../../types';
+import { ApiError } from '../errors';
+import { priceChangeFor } from './TokenFilterUtils';
+
+// Filter expressions for GET /api/tokens?filter= and WebSocket feeds, e.g.
+//   liquidity >= 50000 and market_cap between 1e5 and 5e6 and age < 24h
+//   and dex in (raydium, orca) and not (source = coingecko or merged = true)
+// An expression is compiled once into a predicate and cached by its text.
+
+export type TokenPredicate = (token: TokenData) => boolean;
+
+export class FilterSyntaxError extends ApiError {
+  constructor(message: string, position: number) {
+    super(400, 'INVALID_FILTER', `Invalid filter at position ${position}: ${message}`);
+    this.name = 'FilterSyntaxError';
+  }
+}
+
+type FieldKind = 'number' | 'age' | 'string' | 'list' | 'boolean';
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'not in' | 'between';
+
+interface Field {
+  kind: FieldKind;
+  get(token: TokenData): number | string | string[] | boolean | undefined;
+}
+
+const lower = (value?: string) => (value || '').toLowerCase();
+
+const changeField = (window: ChangeWindow): Field => ({ kind: 'number', get: token => priceChangeFor(token, window) });
+
+const FIELDS: Record<string, Field> = {
+  price: { kind: 'number', get: token => token.price },
+  volume: { kind: 'number', get: token => token.volume24h },
+  market_cap: { kind: 'number', get: token => token.marketCap },
+  liquidity: { kind: 'number', get: token => token.liquidity },
+  txns: { kind: 'number', get: token => token.transaction_count },
+  change_5m: changeField('5m'),
+  change_15m: changeField('15m'),
+  change_1h: changeField('1h'),
+  change_6h: changeField('6h'),
+  change_24h: changeField('24h'),
+  change_7d: changeField('7d'),
+  // hours since the oldest known pair was created
+  age: {
+    kind: 'age',
+    get: token => token.pairCreatedAt ? (Date.now() - Date.parse(token.pairCreatedAt)) / 3_600_000 : undefined,
+  },
+  ticker: { kind: 'string', get: token => lower(token.token_ticker) },
+  name: { kind: 'string', get: token => lower(token.token_name) },
+  // every dex the token trades on, not just the primary pair's
+  dex: { kind: 'list', get: token => [lower(token.dex), ...(token.pairs || []).map(pair => lower(pair.dex))] },
+  source: { kind: 'list', get: token => (token.source || []).map(lower) },
+  merged: { kind: 'boolean', get: token => !!token.is_merged },
+};
+
+const OPERATORS: Record<FieldKind, Operator[]> = {
+  number: ['=', '!=', '>', '>=', '<', '<=', 'between'],
+  age: ['=', '!=', '>', '>=', '<', '<=', 'between'],
+  string: ['=', '!=', 'in', 'not in'],
+  list: ['=', '!=', 'in', 'not in'],
+  boolean: ['=', '!='],
+};
+
+const AGE_UNITS: Record<string, number> = { m: 1 / 60, h: 1, d: 24 };
+
+interface Lexeme {
+  type: 'word' | 'number' | 'string' | 'op' | '(' | ')' | ',';
+  value: string;
+  pos: number;
+}
+
+const LEXEME = /\s*(?:(>=|<=|!=|=|>|<)|([(),])|'([^']*)'|"([^"]*)"|(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?[a-z]?)|([a-z_][\w.-]*))/iy;
+
+function tokenize(input: string): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  LEXEME.lastIndex = 0;
+
+  while (LEXEME.lastIndex < input.length) {
+    const rest = input.slice(LEXEME.lastIndex);
+    if (!rest.trim()) break;
+    const start = LEXEME.lastIndex + rest.length - rest.trimStart().length;
+    const match = LEXEME.exec(input);
+    if (!match) throw new FilterSyntaxError(`unexpected character "${input[start]}"`, start);
+
+    const pos = match.index + match[0].length - match[0].trimStart().length;
+    const [, op, punct, single, double, number, word] = match;
+    if (op) lexemes.push({ type: 'op', value: op, pos });
+    else if (punct) lexemes.push({ type: punct as '(' | ')' | ',', value: punct, pos });
+    else if (single !== undefined || double !== undefined) lexemes.push({ type: 'string', value: single ?? double, pos });
+    else if (number) lexemes.push({ type: 'number', value: number, pos });
+    else lexemes.push({ type: 'word', value: word, pos });
+  }
+  return lexemes;
+}
+
+class Parser {
+  private lexemes: Lexeme[];
+  private index = 0;
+  private end: number;
+
+  constructor(input: string) {
+    this.lexemes = tokenize(input);
+    this.end = input.length;
+  }
+
+  parse(): TokenPredicate {
+    if (this.lexemes.length === 0) throw new FilterSyntaxError('empty expression', 0);
+    const predicate = this.parseOr();
+    if (this.peek()) this.fail(`unexpected "${this.peek()!.value}"`);
+    return predicate;
+  }
+
+  private peek(): Lexeme | undefined {
+    return this.lexemes[this.index];
+  }
+
+  private next(): Lexeme {
+    const lexeme = this.lexemes[this.index++];
+    if (!lexeme) throw new FilterSyntaxError('unexpected end of expression', this.end);
+    return lexeme;
+  }
+
+  private fail(message: string, lexeme: Lexeme | undefined = this.peek()): never {
+    throw new FilterSyntaxError(message, lexeme?.pos ?? this.end);
+  }
+
+  private isKeyword(keyword: string, offset: number = 0): boolean {
+    const lexeme = this.lexemes[this.index + offset];
+    return lexeme?.type === 'word' && lexeme.value.toLowerCase() === keyword;
+  }
+
+  private expect(type: Lexeme['type']): Lexeme {
+    const lexeme = this.next();
+    if (lexeme.type !== type) this.fail(`expected "${type}"`, lexeme);
+    return lexeme;
+  }
+
+  private parseOr(): TokenPredicate {
+    const terms = [this.parseAnd()];
+    while (this.isKeyword('or')) {
+      this.index++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : token => terms.some(term => term(token));
+  }
+
+  private parseAnd(): TokenPredicate {
+    const terms = [this.parseUnary()];
+    while (this.isKeyword('and')) {
+      this.index++;
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : token => terms.every(term => term(token));
+  }
+
+  private parseUnary(): TokenPredicate {
+    if (this.isKeyword('not')) {
+      this.index++;
+      const inner = this.parseUnary();
+      return token => !inner(token);
+    }
+    if (this.peek()?.type === '(') {
+      this.index++;
+      const inner = this.parseOr();
+      this.expect(')');
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): TokenPredicate {
+    const name = this.expect('word');
+    const field = FIELDS[name.value.toLowerCase()];
+    if (!field) this.fail(`unknown field "${name.value}"`, name);
+
+    const opLexeme = this.next();
+    let operator: Operator;
+    if (opLexeme.type === 'op') {
+      operator = opLexeme.value as Operator;
+    } else if (this.isKeyword('in', -1) || this.isKeyword('between', -1)) {
+      operator = opLexeme.value.toLowerCase() as Operator;
+    } else if (this.isKeyword('not', -1) && this.isKeyword('in')) {
+      this.index++;
+      operator = 'not in';
+    } else {
+      this.fail(`expected an operator after "${name.value}"`, opLexeme);
+    }
+
+    if (!OPERATORS[field.kind].includes(operator)) {
+      this.fail(`"${operator}" is not supported for ${name.value}`, opLexeme);
+    }
+
+    if (operator === 'between') {
+      const low = this.parseValue(field.kind);
+      if (!this.isKeyword('and')) this.fail('expected "and" in between');
+      this.index++;
+      const high = this.parseValue(field.kind);
+      return compare(field, operator, [low, high]);
+    }
+
+    if (operator === 'in' || operator === 'not in') {
+      this.expect('(');
+      const values = [this.parseValue(field.kind)];
+      while (this.peek()?.type === ',') {
+        this.index++;
+        values.push(this.parseValue(field.kind));
+      }
+      this.expect(')');
+      return compare(field, operator, values);
+    }
+
+    return compare(field, operator, [this.parseValue(field.kind)]);
+  }
+
+  private parseValue(kind: FieldKind): number | string | boolean {
+    const lexeme = this.next();
+
+    if (kind === 'number' || kind === 'age') {
+      const match = lexeme.type === 'number' ? /^(.*?)([a-z]?)$/i.exec(lexeme.value)! : null;
+      const unit = match?.[2].toLowerCase();
+      if (match && !unit && Number.isFinite(Number(match[1]))) return Number(match[1]);
+      if (match && kind === 'age' && unit && unit in AGE_UNITS) return Number(match[1]) * AGE_UNITS[unit];
+      this.fail(kind === 'age' ? 'expected a duration such as 30m, 24h or 7d' : 'expected a number', lexeme);
+    }
+
+    if (kind === 'boolean') {
+      const value = lexeme.value.toLowerCase();
+      if (lexeme.type === 'word' && (value === 'true' || value === 'false')) return value === 'true';
+      this.fail('expected true or false', lexeme);
+    }
+
+    if (lexeme.type === 'word' || lexeme.type === 'string' || lexeme.type === 'number') {
+      return lexeme.value.toLowerCase();
+    }
+    this.fail('expected a value', lexeme);
+  }
+}
+
+// Missing metrics never satisfy a comparison, so `not` is the way to select them
+function compare(field: Field, operator: Operator, values: Array<number | string | boolean>): TokenPredicate {
+  const [value, high] = values;
+
+  if (field.kind === 'list') {
+    const set = new Set(values as string[]);
+    const has = (token: TokenData) => (field.get(token) as string[]).some(item => set.has(item));
+    return operator === '=' || operator === 'in' ? has : token => !has(token);
+  }
+
+  if (field.kind === 'string' || field.kind === 'boolean') {
+    const set = new Set(values);
+    const has = (token: TokenData) => set.has(field.get(token) as string | boolean);
+    return operator === '=' || operator === 'in' ? has : token => !has(token);
+  }
+
+  const numeric = (test: (x: number) => boolean): TokenPredicate => (token) => {
+    const x = field.get(token) as number | undefined;
+    return x !== undefined && !isNaN(x) && test(x);
+  };
+  switch (operator) {
+    case '=': return numeric(x => x === value);
+    case '!=': return numeric(x => x !== value);
+    case '>': return numeric(x => x > (value as number));
+    case '>=': return numeric(x => x >= (value as number));
+    case '<': return numeric(x => x < (value as number));
+    case '<=': return numeric(x => x <= (value as number));
+    default: return numeric(x => x >= (value as number) && x <= (high as number));
+  }
+}
+
+const MAX_CACHED = 200;
+const compiled = new Map<string, TokenPredicate>();
+
+// Parse and compile an expression, reusing the predicate for text seen before
+export function compileFilter(expression: string): TokenPredicate {
+  const key = expression.trim();
+  let predicate = compiled.get(key);
+  if (!predicate) {
+    predicate = new Parser(key).parse();
+    if (compiled.size >= MAX_CACHED) compiled.delete(compiled.keys().next().value!);
+    compiled.set(key, predicate);
+  }
+  return predicate;
+}
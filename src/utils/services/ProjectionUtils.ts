@@ -0,0 +1,73 @@
+import { TokenData } from '../../types';
+
+// Every TokenData key a client may ask for
+const TOKEN_FIELDS: Array<keyof TokenData> = [
+  'token_address', 'token_name', 'token_ticker',
+  'price', 'priceChange1h', 'priceChange6h', 'priceChange24h', 'priceChangePercentage24h',
+  'marketCap', 'marketCapChange24h', 'marketCapChangePercentage24h', 'volume24h',
+  'circulatingSupply', 'totalSupply',
+  'liquidity', 'high_24h', 'low_24h', 'transaction_count', 'transactionCounts',
+  'ath', 'athChangePercentage', 'athDate', 'atl', 'atlChangePercentage', 'atlDate', 'roi',
+  'dex', 'dexUrl', 'image', 'rank', 'source', 'lastUpdated', 'is_merged', 'mergeConfidence',
+  'addressResolution', 'pairCreatedAt', 'pairs', 'priceChanges', 'provenance', 'divergentFields',
+];
+
+const SUMMARY_FIELDS: Array<keyof TokenData> = [
+  'token_address', 'token_name', 'token_ticker', 'image', 'price', 'priceChangePercentage24h', 'volume24h', 'marketCap',
+];
+
+// Per-field merge detail is large, so it is only returned when fields= names it
+const OPT_IN_FIELDS: Array<keyof TokenData> = ['provenance'];
+
+export const FIELD_PRESETS: Record<string, Array<keyof TokenData>> = {
+  summary: SUMMARY_FIELDS,
+  market: [
+    ...SUMMARY_FIELDS,
+    'priceChange1h', 'priceChange6h', 'priceChange24h', 'priceChanges',
+    'marketCapChange24h', 'marketCapChangePercentage24h', 'liquidity', 'high_24h', 'low_24h',
+    'transaction_count', 'transactionCounts', 'dex', 'pairCreatedAt', 'lastUpdated',
+  ],
+  full: TOKEN_FIELDS.filter(field => !OPT_IN_FIELDS.includes(field)),
+};
+
+// null means every field except the opt-in ones
+export type FieldProjection = Set<keyof TokenData> | null;
+
+// `fields=summary,liquidity`: presets and field names can be mixed; token_address is always kept
+export function parseFields(spec?: string): FieldProjection {
+  if (!spec) return null;
+
+  const fields = new Set<keyof TokenData>(['token_address']);
+  for (const name of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    if (name in FIELD_PRESETS) {
+      FIELD_PRESETS[name].forEach(field => fields.add(field));
+    } else if (TOKEN_FIELDS.includes(name as keyof TokenData)) {
+      fields.add(name as keyof TokenData);
+    } else {
+      throw new Error(`unknown field "${name}"`);
+    }
+  }
+  return fields;
+}
+
+// What a client gets when it asks for no projection; the opt-in fields are all optional
+export function withoutOptInFields<T extends Partial<TokenData>>(token: T): T {
+  if (!OPT_IN_FIELDS.some(field => field in token)) return token;
+  const rest = { ...token };
+  OPT_IN_FIELDS.forEach(field => delete rest[field]);
+  return rest;
+}
+
+const isTokenField = (fields: Set<keyof TokenData>) =>
+  (entry: [string, unknown]): entry is [keyof TokenData, unknown] => fields.has(entry[0] as keyof TokenData);
+
+// Works on full tokens and on delta patches alike
+export function project<T extends Partial<TokenData>>(token: T, fields: FieldProjection): Partial<TokenData> {
+  if (!fields) return withoutOptInFields(token);
+  return Object.fromEntries(Object.entries(token).filter(isTokenField(fields)));
+}
+
+// stable key for grouping clients that asked for the same projection
+export function projectionKey(fields: FieldProjection): string {
+  return fields ? Array.from(fields).sort().join(',') : '*';
+}
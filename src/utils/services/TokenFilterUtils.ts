@@ -0,0 +1,158 @@
+import { ChangeWindow, FilterOptions, SortKey, TokenData, TokenListQuery } from "../../types";
+import { compileFilter } from "./FilterExpressionUtils";
+
+function reportedChange(token: TokenData, window: ChangeWindow): number | null | undefined {
+  switch (window) {
+    case '1h':
+      return token.priceChange1h;
+    case '6h':
+      return token.priceChange6h;
+    case '24h':
+      return token.priceChangePercentage24h;
+    default:
+      return undefined;
+  }
+}
+
+// Percentage change over a window: our computed value first, then what the upstream reported.
+// A 0% move is a real value in every window; only null and undefined mean unreported.
+export function priceChangeFor(token: TokenData, window: ChangeWindow): number | undefined {
+  return token.priceChanges?.[window] ?? reportedChange(token, window) ?? undefined;
+}
+
+// ties break on address, the same order Redis gives equal scores in the sorted indexes
+const byAddress = (a: TokenData, b: TokenData): number => {
+  const x = a.token_address.toLowerCase();
+  const y = b.token_address.toLowerCase();
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const NUMERIC_FIELDS: Array<keyof TokenData> = [
+  'price', 'priceChange1h', 'priceChange6h', 'priceChange24h', 'priceChangePercentage24h',
+  'marketCap', 'marketCapChange24h', 'marketCapChangePercentage24h', 'volume24h',
+  'circulatingSupply', 'totalSupply', 'liquidity', 'high_24h', 'low_24h', 'transaction_count',
+  'ath', 'athChangePercentage', 'atl', 'atlChangePercentage', 'roi', 'rank', 'mergeConfidence',
+];
+
+const CHANGE_FIELDS: Record<string, ChangeWindow> = {
+  change_5m: '5m', change_15m: '15m', change_1h: '1h', change_6h: '6h', change_24h: '24h', change_7d: '7d',
+};
+
+// legacy sort_by names
+const SORT_ALIASES: Record<string, string> = {
+  volume: 'volume24h',
+  market_cap: 'marketCap',
+  liquidity: 'liquidity',
+  transaction_count: 'transaction_count',
+};
+
+// Mappers record unreported metrics as 0 (the merge's hasValue treats it the same way),
+// so 0 counts as missing and, like null, always sorts last. Price changes are the
+// exception: 0% is a real move and sorts with the rest.
+function sortValue(token: TokenData, field: string): number | undefined {
+  if (field in CHANGE_FIELDS) {
+    const change = priceChangeFor(token, CHANGE_FIELDS[field]);
+    return change !== undefined && !isNaN(change) ? change : undefined;
+  }
+  const value = token[field as keyof TokenData] as number | null | undefined;
+  return typeof value === 'number' && value !== 0 && !isNaN(value) ? value : undefined;
+}
+
+// `-volume24h,+marketCap`: comma separated, `-` for descending, `+` or nothing for ascending
+export function parseSort(spec: string, timePeriod?: ChangeWindow): SortKey[] {
+  return spec.split(',').map((part) => {
+    // a raw `+` in a query string decodes to a space
+    const key = part.trim();
+    const descending = key.startsWith('-');
+    const name = key.replace(/^[-+]/, '');
+    const field = name === 'price_change' ? `change_${timePeriod || '24h'}` : SORT_ALIASES[name] ?? name;
+    if (!NUMERIC_FIELDS.includes(field as keyof TokenData) && !(field in CHANGE_FIELDS)) {
+      throw new Error(`cannot sort by "${name}"`);
+    }
+    return { field, descending };
+  });
+}
+
+export function compareTokens(sort: SortKey[]): (a: TokenData, b: TokenData) => number {
+  const finalDescending = sort[0]?.descending ?? true;
+  return (a, b) => {
+    for (const { field, descending } of sort) {
+      const x = sortValue(a, field);
+      const y = sortValue(b, field);
+      if (x === undefined || y === undefined) {
+        if (x !== y) return x === undefined ? 1 : -1;
+        continue;
+      }
+      if (x !== y) return descending ? y - x : x - y;
+    }
+    return finalDescending ? byAddress(b, a) : byAddress(a, b);
+  };
+}
+
+export const DEFAULT_SORT: SortKey[] = [{ field: 'volume24h', descending: true }];
+
+// Build FilterOptions from validated REST query params or a WebSocket feed subscription
+export function parseFilterOptions(query: TokenListQuery): FilterOptions {
+  const timePeriod = query.time_period;
+  // explicit sort_by keeps its old ascending default
+  const legacySort = query.sort_by ? `${query.sort_order === 'desc' ? '-' : ''}${query.sort_by}` : undefined;
+  const sortSpec = query.sort ?? legacySort;
+
+  return {
+    time_period: timePeriod,
+    sort_by: query.sort_by,
+    sort_order: query.sort_order,
+    sort: sortSpec ? parseSort(sortSpec, timePeriod) : DEFAULT_SORT,
+    min_liquidity: query.min_liquidity || undefined,
+    min_volume: query.min_volume || undefined,
+    protocol: query.protocol ?? query.dex,
+    min_change: query.min_change,
+    max_change: query.max_change,
+    filter: query.filter,
+    limit: query.limit ? Math.min(query.limit, 100) : 20,
+    cursor: query.cursor
+  };
+}
+
+// Shared by the REST list endpoint and WebSocket live feeds
+export function applyFilters(tokens: TokenData[], filters: FilterOptions): TokenData[] {
+  let filtered = [...tokens];
+
+  // liquidity filter
+  if (filters.min_liquidity) {
+    filtered = filtered.filter(token => (token.liquidity || 0) >= filters.min_liquidity!);
+  }
+
+  // Volume filter
+  if (filters.min_volume) {
+    filtered = filtered.filter(token => (token.volume24h || 0) >= filters.min_volume!);
+  }
+
+  // Protocol Filter
+  if (filters.protocol) {
+    filtered = filtered.filter(token => 
+      token.dex.toLowerCase().includes(filters.protocol!.toLowerCase())
+    );
+  }
+
+  // Price change window filters; tokens without data for the window drop out
+  if (filters.time_period || filters.min_change !== undefined || filters.max_change !== undefined) {
+    const window = filters.time_period || '24h';
+
+    filtered = filtered.filter(token => {
+      const change = priceChangeFor(token, window);
+      if (change === undefined || isNaN(change)) return false;
+      if (filters.min_change !== undefined && change < filters.min_change) return false;
+      if (filters.max_change !== undefined && change > filters.max_change) return false;
+      return true;
+    });
+  }
+
+  // Filter expression, compiled once per distinct expression
+  if (filters.filter) {
+    filtered = filtered.filter(compileFilter(filters.filter));
+  }
+
+  filtered.sort(compareTokens(filters.sort || DEFAULT_SORT));
+  return filtered;
+}
@@ -0,0 +1,40 @@
+import { SearchIndexEntry, TokenData } from '../../types';
+import { config } from '../../config';
+import { nameSimilarity } from './DataAggregratorUtils';
+
+export function buildSearchIndex(tokens: TokenData[]): SearchIndexEntry[] {
+  return tokens.map(token => ({
+    address: token.token_address.toLowerCase(),
+    ticker: token.token_ticker.toUpperCase(),
+    name: token.token_name.toLowerCase(),
+    volume: token.volume24h || 0,
+  }));
+}
+
+// Queries differing only in case, padding or a leading $ are the same search
+export const normalizeQuery = (query: string): string => query.trim().replace(/^\$/, '').toLowerCase();
+
+// Relevance tiers: exact ticker, exact name, name prefix, word prefix, address
+// prefix, then fuzzy name. 0 means no match.
+export function relevance(entry: SearchIndexEntry, query: string): number {
+  const q = normalizeQuery(query);
+  if (!q) return 0;
+
+  if (entry.ticker === q.toUpperCase()) return 100;
+  if (entry.name === q) return 90;
+  if (entry.name.startsWith(q)) return 80;
+  if (entry.name.split(/\s+/).some(word => word.startsWith(q))) return 70;
+  if (q.length >= config.search.minAddressPrefix && entry.address.startsWith(q)) return 60;
+
+  const similarity = nameSimilarity(entry.name, q);
+  return similarity >= config.search.fuzzyThreshold ? Math.round(similarity * 50) : 0;
+}
+
+// Matching entries ranked by relevance, then 24h volume
+export function searchIndex(index: SearchIndexEntry[], query: string, limit: number): Array<SearchIndexEntry & { score: number }> {
+  return index
+    .map(entry => ({ ...entry, score: relevance(entry, query) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || b.volume - a.volume)
+    .slice(0, limit);
+}
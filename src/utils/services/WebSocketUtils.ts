@@ -0,0 +1,68 @@
+import { FeedRankChange, TokenData, TokenDelta } from "../../types";
+
+// lastUpdated changes on every merge and would turn every token into a patch
+const IGNORED_FIELDS = new Set<keyof TokenData>(['lastUpdated']);
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// Changed fields per token between two snapshots keyed by lowercase address
+export function diffSnapshots(
+  previous: Map<string, TokenData>,
+  next: Map<string, TokenData>
+): Omit<TokenDelta, 'seq' | 'prev_seq'> {
+  const updated: Record<string, Partial<TokenData>> = {};
+  const added: TokenData[] = [];
+  const removed: string[] = [];
+
+  next.forEach((token, address) => {
+    const before = previous.get(address);
+    if (!before) {
+      added.push(token);
+      return;
+    }
+
+    const patch: Record<string, unknown> = {};
+    for (const field of Object.keys(token) as (keyof TokenData)[]) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      if (!sameValue(before[field], token[field])) patch[field] = token[field];
+    }
+    for (const field of Object.keys(before) as (keyof TokenData)[]) {
+      if (!(field in token)) patch[field] = null;
+    }
+    if (Object.keys(patch).length > 0) updated[address] = patch as Partial<TokenData>;
+  });
+
+  previous.forEach((_, address) => {
+    if (!next.has(address)) removed.push(address);
+  });
+
+  return { updated, added, removed };
+}
+
+export const isEmptyDelta = (delta: Omit<TokenDelta, 'seq' | 'prev_seq'>): boolean =>
+  Object.keys(delta.updated).length === 0 && delta.added.length === 0 && delta.removed.length === 0;
+
+// Entries, exits and rank moves between two ordered views (rank is 1-based)
+export function diffFeedRanking(previous: string[], next: string[]): {
+  entries: Array<{ address: string; rank: number }>;
+  exits: string[];
+  rank_changes: FeedRankChange[];
+} {
+  const before = new Map(previous.map((address, index) => [address, index + 1]));
+  const after = new Map(next.map((address, index) => [address, index + 1]));
+
+  const entries: Array<{ address: string; rank: number }> = [];
+  const rank_changes: FeedRankChange[] = [];
+  after.forEach((rank, address) => {
+    const from = before.get(address);
+    if (from === undefined) {
+      entries.push({ address, rank });
+    } else if (from !== rank) {
+      rank_changes.push({ address, from, to: rank });
+    }
+  });
+
+  const exits = previous.filter(address => !after.has(address));
+  return { entries, exits, rank_changes };
+}